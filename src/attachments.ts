@@ -0,0 +1,184 @@
+/**
+ * File attachments
+ *
+ * Outbound: size/MIME allow-lists and an optional virus-scan hook before a
+ * file is uploaded to MIAW. Inbound: parse attachment entries into
+ * { name, mimeType, downloadUrl }, where downloadUrl is a short-lived signed
+ * link to our own /api/attachment route (the Salesforce URL needs the
+ * session's bearer token, which never leaves the server).
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import { ConfigError, UpstreamError, ValidationError } from './errors.js';
+
+export interface AttachmentPolicy {
+  maxBytes: number;
+  allowedMimeTypes: string[];
+  scanUrl?: string;
+  downloadTtlSeconds: number;
+}
+
+export interface ParsedAttachment {
+  id?: string;
+  name: string;
+  mimeType: string;
+  /** Salesforce URL - requires the session's access token */
+  url: string;
+}
+
+export interface DownloadTokenPayload {
+  sessionId: string;
+  /** Salesforce attachment URL (attachment links) */
+  url?: string;
+  /** Transcript links: what to render instead of fetching a URL */
+  transcript?: { conversationId: string; format: string };
+  name: string;
+  mimeType: string;
+  exp: number;
+}
+
+const DEFAULT_ALLOWED_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+/**
+ * Secret that signs download links (MIAW_DOWNLOAD_SIGNING_SECRET, else
+ * MIAW_SESSION_ENCRYPTION_KEY). Every instance behind SERVER_URL must share it.
+ */
+export function downloadSigningSecret(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return env.MIAW_DOWNLOAD_SIGNING_SECRET || env.MIAW_SESSION_ENCRYPTION_KEY || undefined;
+}
+
+const signingSecret = downloadSigningSecret();
+
+/**
+ * Read attachment limits from the environment
+ */
+export function loadAttachmentPolicy(env: NodeJS.ProcessEnv = process.env): AttachmentPolicy {
+  return {
+    maxBytes: parseInt(env.MIAW_FILE_MAX_BYTES || String(5 * 1024 * 1024), 10),
+    allowedMimeTypes: env.MIAW_FILE_ALLOWED_TYPES
+      ? env.MIAW_FILE_ALLOWED_TYPES.split(',').map((t) => t.trim().toLowerCase()).filter(Boolean)
+      : DEFAULT_ALLOWED_MIME_TYPES,
+    scanUrl: env.MIAW_FILE_SCAN_URL,
+    downloadTtlSeconds: parseInt(env.MIAW_ATTACHMENT_URL_TTL || '300', 10)
+  };
+}
+
+/**
+ * Decode and check an outbound file. Throws with a user-facing message if it is rejected.
+ */
+export async function prepareUpload(
+  policy: AttachmentPolicy,
+  fileName: string,
+  mimeType: string,
+  base64Data: string
+): Promise<Buffer> {
+  const normalizedType = (mimeType || '').toLowerCase();
+  if (!policy.allowedMimeTypes.includes(normalizedType)) {
+    throw new ValidationError(`File type ${mimeType} is not allowed. Allowed types: ${policy.allowedMimeTypes.join(', ')}`, 'FILE_TYPE_NOT_ALLOWED');
+  }
+
+  // Tolerate data: URLs from the widget's FileReader
+  const data = Buffer.from(base64Data.replace(/^data:[^;]+;base64,/, ''), 'base64');
+  if (data.length === 0) {
+    throw new ValidationError('File is empty or not valid base64', 'FILE_INVALID');
+  }
+  if (data.length > policy.maxBytes) {
+    throw new ValidationError(`File is ${data.length} bytes; the limit is ${policy.maxBytes} bytes`, 'FILE_TOO_LARGE', undefined, 413);
+  }
+
+  if (policy.scanUrl) {
+    await scanFile(policy.scanUrl, fileName, normalizedType, data);
+  }
+  return data;
+}
+
+/**
+ * Virus-scan hook: POST the bytes to MIAW_FILE_SCAN_URL.
+ * Only a 2xx response with { "clean": true } lets the file through.
+ */
+async function scanFile(scanUrl: string, fileName: string, mimeType: string, data: Buffer) {
+  let verdict: any;
+  try {
+    const response = await axios.post(scanUrl, data, {
+      headers: { 'Content-Type': 'application/octet-stream', 'X-File-Name': fileName, 'X-File-Type': mimeType },
+      timeout: 30000,
+      maxBodyLength: Infinity
+    });
+    verdict = response.data;
+  } catch (error: any) {
+    console.error('File scan failed:', error.response?.status || error.message);
+    throw new UpstreamError('File could not be scanned and was not sent', { code: 'FILE_SCAN_FAILED', httpStatus: 502, retryable: true });
+  }
+  if (verdict?.clean !== true) {
+    console.error(`File ${fileName} rejected by scanner:`, verdict.reason || verdict);
+    throw new ValidationError('File was rejected by the virus scanner', 'FILE_REJECTED');
+  }
+}
+
+/**
+ * Extract attachments from a MIAW message entry (staticContent.formatType === 'Attachments')
+ */
+export function parseAttachments(entry: any): ParsedAttachment[] {
+  const staticContent = entry?.entryPayload?.abstractMessage?.staticContent;
+  const attachments: any[] = staticContent?.attachments || [];
+  return attachments
+    .filter((a) => a?.url)
+    .map((a) => ({
+      id: a.id,
+      name: a.name || 'attachment',
+      mimeType: a.mimeType || 'application/octet-stream',
+      url: a.url
+    }));
+}
+
+/**
+ * Whether this server can hand out download links
+ */
+export function canSignDownloadLinks(): boolean {
+  return !!signingSecret;
+}
+
+/**
+ * Sign a short-lived token that lets the holder download one attachment through our server
+ */
+export function signDownloadToken(payload: DownloadTokenPayload): string {
+  if (!signingSecret) {
+    throw new ConfigError(['MIAW_DOWNLOAD_SIGNING_SECRET: is required to sign download links']);
+  }
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto.createHmac('sha256', signingSecret).update(body).digest('base64url');
+  return `${body}.${signature}`;
+}
+
+/**
+ * Verify a download token; returns null if it is forged or expired
+ */
+export function verifyDownloadToken(token: string): DownloadTokenPayload | null {
+  const [body, signature] = (token || '').split('.');
+  if (!signingSecret || !body || !signature) return null;
+
+  const expected = crypto.createHmac('sha256', signingSecret).update(body).digest('base64url');
+  if (signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as DownloadTokenPayload;
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Conversation entry classification
+ *
+ * Tags each MIAW entry as bot / agent / user / system / closure from an
+ * ordered list of declarative rules. The first matching rule wins; entries no
+ * rule matches fall back to the sender role. Orgs with different greeting
+ * templates or non-English deployments replace the defaults with their own
+ * JSON or YAML file (MIAW_CLASSIFIER_RULES) instead of changing code.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+export type EntryClass = 'bot' | 'agent' | 'user' | 'system' | 'closure';
+
+export const ENTRY_CLASSES: EntryClass[] = ['bot', 'agent', 'user', 'system', 'closure'];
+
+/**
+ * Match conditions - all present conditions must hold.
+ * String lists match any value; sender and text are regular expressions.
+ */
+export interface RuleMatch {
+  entryType?: string | string[];
+  role?: string | string[];
+  /** Regex tested against senderDisplayName */
+  sender?: string;
+  messageReason?: string | string[];
+  /** Regex tested against the message text */
+  text?: string;
+  /** Only apply when the deployment language starts with one of these (e.g. "en", "fr_CA") */
+  locale?: string | string[];
+  /** Exact values of top-level entryPayload fields, e.g. { routingType: "EndConversation" } */
+  payload?: Record<string, string | string[]>;
+}
+
+export interface ClassificationRule {
+  name?: string;
+  class: EntryClass;
+  match: RuleMatch;
+  /** Regex flags for sender/text (default "i") */
+  flags?: string;
+}
+
+export interface Classification {
+  class: EntryClass;
+  /** Name of the rule that matched; undefined when the role fallback applied */
+  rule?: string;
+}
+
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRule[] = [
+  { name: 'conversation-closed', class: 'closure', match: { entryType: 'ConversationClose' } },
+  { name: 'routed-to-end', class: 'closure', match: { entryType: 'RoutingResult', payload: { routingType: 'EndConversation' } } },
+  { name: 'participant-left', class: 'closure', match: { entryType: 'ParticipantChanged', payload: { participantChangeType: 'Left' } } },
+  {
+    name: 'agent-ended-chat',
+    class: 'closure',
+    match: {
+      entryType: 'Message',
+      sender: 'Automated Process',
+      text: 'agent has ended the chat|chat has ended|conversation has ended'
+    }
+  },
+  { name: 'automated-process', class: 'system', match: { entryType: 'Message', sender: 'automated' } },
+  { name: 'automated-response', class: 'system', match: { entryType: 'Message', messageReason: 'AutomatedResponse' } },
+  {
+    name: 'connecting-templates',
+    class: 'system',
+    match: {
+      entryType: 'Message',
+      locale: 'en',
+      text: 'One moment while I connect you|connect you to the next available|thanks for reaching out|We will be with you shortly'
+    }
+  }
+];
+
+const ROLE_CLASSES: Record<string, EntryClass> = {
+  Chatbot: 'bot',
+  Agent: 'agent',
+  EndUser: 'user'
+};
+
+interface CompiledRule {
+  rule: ClassificationRule;
+  sender?: RegExp;
+  text?: RegExp;
+}
+
+function asList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+function oneOf(actual: string, expected: string | string[] | undefined): boolean {
+  const list = asList(expected);
+  return !list || list.includes(actual);
+}
+
+export class EntryClassifier {
+  private rules: CompiledRule[];
+
+  constructor(rules: ClassificationRule[], private locale: string = 'en_US') {
+    this.rules = rules
+      .filter((rule) => this.appliesToLocale(rule))
+      .map((rule) => ({
+        rule,
+        sender: rule.match.sender ? new RegExp(rule.match.sender, rule.flags ?? 'i') : undefined,
+        text: rule.match.text ? new RegExp(rule.match.text, rule.flags ?? 'i') : undefined
+      }));
+  }
+
+  /**
+   * Classify one entry (REST shape, or SSE after event-stream normalization)
+   */
+  classify(entry: any): Classification {
+    const entryType = entry?.entryType || '';
+    const role = entry?.sender?.role || entry?.senderRole || '';
+    const sender = entry?.senderDisplayName || '';
+    const messageReason = entry?.entryPayload?.messageReason || entry?.messageReason || '';
+    const text = entry?.entryPayload?.abstractMessage?.staticContent?.text || '';
+
+    for (const { rule, sender: senderPattern, text: textPattern } of this.rules) {
+      const match = rule.match;
+      if (!oneOf(entryType, match.entryType)) continue;
+      if (!oneOf(role, match.role)) continue;
+      if (!oneOf(messageReason, match.messageReason)) continue;
+      if (senderPattern && !senderPattern.test(sender)) continue;
+      if (textPattern && !textPattern.test(text)) continue;
+      if (match.payload && !Object.entries(match.payload).every(
+        ([field, expected]) => oneOf(String(entry?.entryPayload?.[field] ?? ''), expected)
+      )) continue;
+      return { class: rule.class, rule: rule.name };
+    }
+
+    if (entryType !== 'Message') {
+      return { class: 'system' };
+    }
+    return { class: ROLE_CLASSES[role] || 'system' };
+  }
+
+  private appliesToLocale(rule: ClassificationRule): boolean {
+    const locales = asList(rule.match.locale);
+    if (!locales) return true;
+    const current = this.locale.toLowerCase().replace('-', '_');
+    return locales.some((locale) => current.startsWith(locale.toLowerCase().replace('-', '_')));
+  }
+}
+
+/**
+ * Parse and check a rules document: { "rules": [...] } or a bare array
+ */
+export function parseClassificationRules(source: string, format: 'json' | 'yaml'): ClassificationRule[] {
+  const document = format === 'yaml' ? YAML.parse(source) : JSON.parse(source);
+  const rules = Array.isArray(document) ? document : document?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('Classification rules must be a list or an object with a "rules" list');
+  }
+
+  rules.forEach((rule: any, index: number) => {
+    const label = rule?.name || `#${index + 1}`;
+    if (!ENTRY_CLASSES.includes(rule?.class)) {
+      throw new Error(`Classification rule ${label}: class must be one of ${ENTRY_CLASSES.join(', ')}`);
+    }
+    if (!rule.match || typeof rule.match !== 'object') {
+      throw new Error(`Classification rule ${label}: "match" is required`);
+    }
+    for (const field of ['sender', 'text'] as const) {
+      if (rule.match[field] !== undefined) {
+        try {
+          new RegExp(rule.match[field], rule.flags ?? 'i');
+        } catch (error: any) {
+          throw new Error(`Classification rule ${label}: invalid ${field} pattern (${error.message})`);
+        }
+      }
+    }
+  });
+  return rules;
+}
+
+/**
+ * Build the classifier from MIAW_CLASSIFIER_RULES (a .json, .yaml or .yml file)
+ * or the built-in defaults
+ */
+export function loadClassifier(env: NodeJS.ProcessEnv = process.env): EntryClassifier {
+  const locale = env.MIAW_LANGUAGE || 'en_US';
+  const rulesFile = env.MIAW_CLASSIFIER_RULES;
+  if (!rulesFile) {
+    return new EntryClassifier(DEFAULT_CLASSIFICATION_RULES, locale);
+  }
+
+  const extension = path.extname(rulesFile).toLowerCase();
+  const format = extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json';
+  const rules = parseClassificationRules(fs.readFileSync(rulesFile, 'utf8'), format);
+  console.error(`Loaded ${rules.length} classification rules from ${rulesFile}`);
+  return new EntryClassifier(rules, locale);
+}
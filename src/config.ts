@@ -0,0 +1,246 @@
+/**
+ * Server configuration, checked at startup
+ *
+ * Settings come from the environment (and MIAW_DEPLOYMENTS_FILE). Every
+ * variable is checked against ENV_SCHEMA and every deployment's SCRT URL,
+ * org ID and developer name are checked before the server starts, so a typo
+ * stops the boot with a list of problems instead of failing the first tool
+ * call. `miaw-mcp-server doctor` runs the same checks.
+ */
+
+import fs from 'fs';
+import { ConfigError } from './errors.js';
+import { Deployment, DeploymentRegistry, loadDeployments } from './deployments.js';
+import { downloadSigningSecret } from './attachments.js';
+
+export interface ConfigIssue {
+  /** Environment variable or deployment the issue is about */
+  subject: string;
+  message: string;
+  /** Errors stop the server; warnings are logged */
+  severity: 'error' | 'warning';
+}
+
+export interface ConfigReport {
+  issues: ConfigIssue[];
+  /** Undefined if the deployments could not be loaded at all */
+  deployments?: DeploymentRegistry;
+}
+
+export interface ServerConfig {
+  transport: 'stdio' | 'http';
+  port: number;
+  /** Public base URL of this server, used in download links and widget metadata */
+  serverUrl: string;
+  /** Default deployment language (MIAW_LANGUAGE) */
+  language?: string;
+  sessionIdleTtlMs: number;
+  sessionClosedTtlMs: number;
+  sessionReaperIntervalMs: number;
+  tokenRefreshWindowMs: number;
+  deployments: DeploymentRegistry;
+}
+
+type VariableSpec =
+  | { type: 'integer' | 'number'; min?: number; max?: number }
+  | { type: 'boolean' }
+  | { type: 'url'; protocols: string[] }
+  | { type: 'enum'; values: string[] }
+  | { type: 'file' };
+
+const DEFAULT_SERVER_URL = 'https://miaw-mcp-server-6df009bc852c.herokuapp.com';
+
+const HTTP_URL: VariableSpec = { type: 'url', protocols: ['http:', 'https:'] };
+const REDIS_URL: VariableSpec = { type: 'url', protocols: ['redis:', 'rediss:'] };
+
+/**
+ * Format of the optional variables (unset ones take the defaults documented in .env.example)
+ */
+const ENV_SCHEMA: Record<string, VariableSpec> = {
+  MCP_TRANSPORT: { type: 'enum', values: ['stdio', 'http'] },
+  PORT: { type: 'integer', min: 1, max: 65535 },
+  SERVER_URL: HTTP_URL,
+  MIAW_DEPLOYMENTS_FILE: { type: 'file' },
+  MIAW_SCRT_PROTOCOL: { type: 'enum', values: ['https', 'http'] },
+  MIAW_EVENT_ROUTER_URL: HTTP_URL,
+  MIAW_SESSION_STORE: { type: 'enum', values: ['memory', 'file', 'redis'] },
+  REDIS_URL,
+  REDIS_TLS_URL: REDIS_URL,
+  MIAW_SESSION_IDLE_TTL: { type: 'integer', min: 1 },
+  MIAW_SESSION_CLOSED_TTL: { type: 'integer', min: 0 },
+  MIAW_SESSION_REAPER_INTERVAL: { type: 'integer', min: 1 },
+  MIAW_TOKEN_REFRESH_WINDOW: { type: 'integer', min: 0 },
+  MIAW_POLL_MAX_WAIT_MS: { type: 'integer', min: 0 },
+  MIAW_POLL_INITIAL_INTERVAL_MS: { type: 'integer', min: 0 },
+  MIAW_POLL_MAX_INTERVAL_MS: { type: 'integer', min: 0 },
+  MIAW_POLL_BACKOFF_FACTOR: { type: 'number', min: 1 },
+  MIAW_POLL_QUIET_PERIOD_MS: { type: 'integer', min: 0 },
+  MIAW_CLASSIFIER_RULES: { type: 'file' },
+  MIAW_JWT_PRIVATE_KEY_FILE: { type: 'file' },
+  MIAW_JWT_TTL: { type: 'integer', min: 1 },
+  MIAW_JWT_ALLOW_SUBJECT_ARG: { type: 'boolean' },
+  MIAW_FILE_MAX_BYTES: { type: 'integer', min: 1 },
+  MIAW_FILE_SCAN_URL: HTTP_URL,
+  MIAW_ATTACHMENT_URL_TTL: { type: 'integer', min: 1 },
+  MIAW_HTTP_MAX_RETRIES: { type: 'integer', min: 0 },
+  MIAW_HTTP_RETRY_BASE_MS: { type: 'integer', min: 0 },
+  MIAW_HTTP_RETRY_MAX_MS: { type: 'integer', min: 0 },
+  MIAW_CIRCUIT_FAILURE_THRESHOLD: { type: 'integer', min: 1 },
+  MIAW_CIRCUIT_OPEN_MS: { type: 'integer', min: 0 }
+};
+
+// 00D + 12 (15-character) or 15 (18-character) alphanumerics
+const ORG_ID_PATTERN = /^00D[a-zA-Z0-9]{12}([a-zA-Z0-9]{3})?$/;
+const SCRT_HOST_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*(:\d+)?$/i;
+const DEVELOPER_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+/**
+ * Enum variables are case-insensitive; checks and readers both compare this form
+ */
+function enumValue(value: string | undefined): string {
+  return (value || '').toLowerCase();
+}
+
+function checkVariable(value: string, spec: VariableSpec): string | null {
+  switch (spec.type) {
+    case 'integer':
+    case 'number': {
+      const parsed = Number(value);
+      if (value.trim() === '' || !Number.isFinite(parsed) || (spec.type === 'integer' && !Number.isInteger(parsed))) {
+        return `must be ${spec.type === 'integer' ? 'a whole number' : 'a number'}, got "${value}"`;
+      }
+      if (spec.min !== undefined && parsed < spec.min) return `must be at least ${spec.min}, got ${parsed}`;
+      if (spec.max !== undefined && parsed > spec.max) return `must be at most ${spec.max}, got ${parsed}`;
+      return null;
+    }
+    case 'boolean':
+      return value === 'true' || value === 'false' ? null : `must be "true" or "false", got "${value}"`;
+    case 'enum':
+      return spec.values.includes(enumValue(value)) ? null : `must be one of ${spec.values.join(', ')}, got "${value}"`;
+    case 'url':
+      try {
+        const url = new URL(value);
+        return spec.protocols.includes(url.protocol) ? null : `must be a ${spec.protocols.join(' or ')} URL, got "${value}"`;
+      } catch {
+        return `must be a URL, got "${value}"`;
+      }
+    case 'file':
+      return fs.existsSync(value) ? null : `file ${value} does not exist`;
+  }
+}
+
+/**
+ * Problems with one deployment. Without a deployments file the subjects are
+ * the MIAW_* variables the default deployment came from.
+ */
+function deploymentIssues(deployment: Deployment, fromEnv: boolean): ConfigIssue[] {
+  const subject = (field: string, variable: string) => fromEnv ? variable : `deployment "${deployment.name}" ${field}`;
+  const issues: ConfigIssue[] = [];
+  const error = (s: string, message: string) => issues.push({ subject: s, message, severity: 'error' });
+
+  if (!deployment.scrtUrl) {
+    error(subject('scrtUrl', 'MIAW_SCRT_URL'), 'is required');
+  } else if (!SCRT_HOST_PATTERN.test(deployment.scrtUrl)) {
+    error(subject('scrtUrl', 'MIAW_SCRT_URL'), `"${deployment.scrtUrl}" is not a host name (expected e.g. scrt01.uengage1.sfdc-xxxxxx.svc.sfdcfc.net)`);
+  }
+  if (!deployment.orgId) {
+    error(subject('orgId', 'MIAW_ORG_ID'), 'is required');
+  } else if (!ORG_ID_PATTERN.test(deployment.orgId)) {
+    error(subject('orgId', 'MIAW_ORG_ID'), `"${deployment.orgId}" is not a Salesforce org ID (00D followed by 12 or 15 characters)`);
+  }
+  if (!deployment.esDeveloperName) {
+    error(subject('esDeveloperName', 'MIAW_ES_DEVELOPER_NAME'), 'is required');
+  } else if (!DEVELOPER_NAME_PATTERN.test(deployment.esDeveloperName)) {
+    error(subject('esDeveloperName', 'MIAW_ES_DEVELOPER_NAME'), `"${deployment.esDeveloperName}" is not an API name (the deployment's developer name, not its label)`);
+  }
+  // MIAW_SCRT_PROTOCOL and MIAW_EVENT_ROUTER_URL themselves are covered by ENV_SCHEMA
+  if (!fromEnv && deployment.scrtProtocol !== undefined && deployment.scrtProtocol !== 'https' && deployment.scrtProtocol !== 'http') {
+    error(subject('scrtProtocol', 'MIAW_SCRT_PROTOCOL'), `must be one of https, http, got "${deployment.scrtProtocol}"`);
+  }
+  if (!fromEnv && deployment.eventRouterUrl) {
+    const problem = checkVariable(deployment.eventRouterUrl, HTTP_URL);
+    if (problem) error(subject('eventRouterUrl', 'MIAW_EVENT_ROUTER_URL'), problem);
+  }
+  return issues;
+}
+
+/**
+ * Check the environment and the deployments without starting anything
+ */
+export function checkConfig(env: NodeJS.ProcessEnv = process.env): ConfigReport {
+  const issues: ConfigIssue[] = [];
+
+  for (const [name, spec] of Object.entries(ENV_SCHEMA)) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    const problem = checkVariable(value, spec);
+    if (problem) issues.push({ subject: name, message: problem, severity: 'error' });
+  }
+
+  const store = enumValue(env.MIAW_SESSION_STORE || 'memory');
+  if (store !== 'memory' && !env.MIAW_SESSION_ENCRYPTION_KEY) {
+    issues.push({ subject: 'MIAW_SESSION_ENCRYPTION_KEY', message: `is required when MIAW_SESSION_STORE=${store}`, severity: 'error' });
+  }
+  if (store === 'redis' && !env.REDIS_URL && !env.REDIS_TLS_URL) {
+    issues.push({ subject: 'REDIS_URL', message: 'is required when MIAW_SESSION_STORE=redis', severity: 'error' });
+  }
+  if ((env.MIAW_JWT_IDENTITY_HEADER || env.MIAW_JWT_SUBJECT_HEADER) && !env.MIAW_JWT_HEADER_SECRET) {
+    issues.push({ subject: 'MIAW_JWT_HEADER_SECRET', message: 'is required when MIAW_JWT_IDENTITY_HEADER or MIAW_JWT_SUBJECT_HEADER is set; without it any client could send an identity', severity: 'error' });
+  }
+  if (isHttpTransport(env) && !downloadSigningSecret(env)) {
+    issues.push({ subject: 'MIAW_DOWNLOAD_SIGNING_SECRET', message: 'is required for the HTTP transport (or set MIAW_SESSION_ENCRYPTION_KEY); it signs attachment and transcript download links', severity: 'error' });
+  }
+  if (isHttpTransport(env) && !env.SERVER_URL) {
+    issues.push({ subject: 'SERVER_URL', message: `is not set; download links and widgets will point at ${DEFAULT_SERVER_URL}`, severity: 'warning' });
+  }
+
+  let deployments: DeploymentRegistry | undefined;
+  try {
+    deployments = loadDeployments(env);
+  } catch (error: any) {
+    issues.push({ subject: 'MIAW_DEPLOYMENTS_FILE', message: error.message, severity: 'error' });
+  }
+  for (const deployment of deployments?.list() || []) {
+    issues.push(...deploymentIssues(deployment, !env.MIAW_DEPLOYMENTS_FILE));
+  }
+
+  return { issues, deployments };
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  return `${issue.subject}: ${issue.message}`;
+}
+
+function isHttpTransport(env: NodeJS.ProcessEnv): boolean {
+  return enumValue(env.MCP_TRANSPORT) === 'http' || !!env.PORT;
+}
+
+function readInteger(value: string | undefined, fallback: number): number {
+  return value === undefined || value === '' ? fallback : Number(value);
+}
+
+/**
+ * Validated, typed server settings; throws ConfigError listing every problem
+ */
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const { issues, deployments } = checkConfig(env);
+  for (const warning of issues.filter((i) => i.severity === 'warning')) {
+    console.error(`Configuration warning - ${formatConfigIssue(warning)}`);
+  }
+  const errors = issues.filter((i) => i.severity === 'error');
+  if (errors.length > 0 || !deployments) {
+    throw new ConfigError(errors.map(formatConfigIssue));
+  }
+
+  return {
+    transport: isHttpTransport(env) ? 'http' : 'stdio',
+    port: readInteger(env.PORT, 3000),
+    serverUrl: (env.SERVER_URL || DEFAULT_SERVER_URL).replace(/\/+$/, ''),
+    language: env.MIAW_LANGUAGE || undefined,
+    sessionIdleTtlMs: readInteger(env.MIAW_SESSION_IDLE_TTL, 1800) * 1000,
+    sessionClosedTtlMs: readInteger(env.MIAW_SESSION_CLOSED_TTL, 300) * 1000,
+    sessionReaperIntervalMs: readInteger(env.MIAW_SESSION_REAPER_INTERVAL, 60) * 1000,
+    tokenRefreshWindowMs: readInteger(env.MIAW_TOKEN_REFRESH_WINDOW, 300) * 1000,
+    deployments
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Conversations as MCP resources
+ *
+ * MCP clients that attach context (Claude Desktop and friends) can read a
+ * conversation directly instead of calling list_conversation_entries in a
+ * loop:
+ *   miaw://session/{sessionId}/conversation/{conversationId}/transcript  (markdown)
+ *   miaw://session/{sessionId}/conversation/{conversationId}/entries     (JSON)
+ * Subscribing to either URI sends notifications/resources/updated whenever
+ * a new entry arrives.
+ */
+
+export type ConversationResourceKind = 'transcript' | 'entries';
+
+export interface ConversationResourceTarget {
+  sessionId: string;
+  conversationId: string;
+  kind: ConversationResourceKind;
+}
+
+export const CONVERSATION_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'miaw://session/{sessionId}/conversation/{conversationId}/transcript',
+    name: 'Conversation transcript',
+    description: 'Live transcript of a Salesforce conversation (bot, agent and user messages plus routing events), as markdown. Subscribe to be notified of new messages.',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'miaw://session/{sessionId}/conversation/{conversationId}/entries',
+    name: 'Conversation entries',
+    description: 'Normalized conversation entries (same shape as list_conversation_entries), as JSON. Subscribe to be notified of new entries.',
+    mimeType: 'application/json'
+  }
+];
+
+export const RESOURCE_MIME_TYPES: Record<ConversationResourceKind, string> = {
+  transcript: 'text/markdown',
+  entries: 'application/json'
+};
+
+const RESOURCE_URI_PATTERN = /^miaw:\/\/session\/([^/]+)\/conversation\/([^/]+)\/(transcript|entries)$/;
+
+/**
+ * Parse a conversation resource URI; null if it is not one
+ */
+export function parseConversationResourceUri(uri: string): ConversationResourceTarget | null {
+  const match = RESOURCE_URI_PATTERN.exec(uri);
+  if (!match) {
+    return null;
+  }
+  return {
+    sessionId: decodeURIComponent(match[1]),
+    conversationId: decodeURIComponent(match[2]),
+    kind: match[3] as ConversationResourceKind
+  };
+}
+
+export function conversationResourceUri(sessionId: string, conversationId: string, kind: ConversationResourceKind): string {
+  return `miaw://session/${encodeURIComponent(sessionId)}/conversation/${encodeURIComponent(conversationId)}/${kind}`;
+}
@@ -0,0 +1,167 @@
+/**
+ * Embedded Service deployments served by this server
+ *
+ * One server can front several deployments (brands, regions, orgs). They are
+ * listed in a JSON or YAML file (MIAW_DEPLOYMENTS_FILE) keyed by name:
+ *
+ *   default: brand-a-us
+ *   deployments:
+ *     brand-a-us:
+ *       scrtUrl: brand-a.my.salesforce-scrt.com
+ *       orgId: 00D...
+ *       esDeveloperName: Brand_A_US
+ *       apiKeys: [key-used-by-brand-a-frontends]
+ *     brand-b-eu: { ... }
+ *
+ * Without the file the single deployment comes from MIAW_SCRT_URL,
+ * MIAW_ORG_ID and MIAW_ES_DEVELOPER_NAME, named "default". A session is
+ * pinned to the deployment it was created in.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import * as types from './types.js';
+import { WaitStrategy } from './wait-strategy.js';
+import { ConfigError, UnknownDeploymentError } from './errors.js';
+
+export interface Deployment extends types.MIAWConfig {
+  name: string;
+  /** Deployment language for pre-chat labels (defaults to MIAW_LANGUAGE) */
+  language?: string;
+  /** Values of the x-miaw-api-key header that select this deployment */
+  apiKeys?: string[];
+  /** Per-deployment overrides of the list_conversation_entries wait strategy */
+  poll?: Partial<WaitStrategy>;
+}
+
+export const DEFAULT_DEPLOYMENT_NAME = 'default';
+
+/** Header carrying an API key that selects a deployment */
+export const DEPLOYMENT_API_KEY_HEADER = 'x-miaw-api-key';
+
+const REQUIRED_FIELDS = ['scrtUrl', 'orgId', 'esDeveloperName'] as const;
+
+/**
+ * SCRT host as MIAWClient expects it: Setup shows it as a full URL, so drop
+ * the scheme, any path and trailing slashes ("https://scrt01.../" -> "scrt01...")
+ */
+export function normalizeScrtUrl(value: string | undefined): string {
+  return (value || '')
+    .trim()
+    .replace(/^[a-z]+:\/\//i, '')
+    .replace(/[/?#].*$/, '');
+}
+
+export class DeploymentRegistry {
+  private deployments = new Map<string, Deployment>();
+
+  constructor(deployments: Deployment[], readonly defaultName: string = deployments[0]?.name || DEFAULT_DEPLOYMENT_NAME) {
+    for (const deployment of deployments) {
+      this.deployments.set(deployment.name, deployment);
+    }
+  }
+
+  names(): string[] {
+    return [...this.deployments.keys()];
+  }
+
+  /**
+   * Every deployment, unchecked (for validation and diagnostics)
+   */
+  list(): Deployment[] {
+    return [...this.deployments.values()];
+  }
+
+  /**
+   * True when callers have more than one deployment to choose from
+   */
+  isMulti(): boolean {
+    return this.deployments.size > 1;
+  }
+
+  /**
+   * The named deployment (or the default); throws if it is unknown or incomplete
+   */
+  get(name: string = this.defaultName): Deployment {
+    const deployment = this.deployments.get(name);
+    if (!deployment) {
+      throw new UnknownDeploymentError(name, this.names());
+    }
+    const missing = REQUIRED_FIELDS.filter((field) => !deployment[field]);
+    if (missing.length > 0) {
+      throw new ConfigError([
+        name === DEFAULT_DEPLOYMENT_NAME && this.deployments.size === 1
+          ? 'Missing required environment variables: MIAW_SCRT_URL, MIAW_ORG_ID, MIAW_ES_DEVELOPER_NAME'
+          : `Deployment "${name}" is missing ${missing.join(', ')}`
+      ]);
+    }
+    return deployment;
+  }
+
+  byApiKey(apiKey: string | undefined): Deployment | undefined {
+    if (!apiKey) return undefined;
+    for (const deployment of this.deployments.values()) {
+      if (deployment.apiKeys?.includes(apiKey)) {
+        return deployment;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Parse and check a deployments document: { default?, deployments: { name: {...} } }
+ */
+export function parseDeployments(source: string, format: 'json' | 'yaml'): DeploymentRegistry {
+  const document = format === 'yaml' ? YAML.parse(source) : JSON.parse(source);
+  const entries = document?.deployments;
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries) || Object.keys(entries).length === 0) {
+    throw new Error('Deployments file must have a non-empty "deployments" object keyed by name');
+  }
+
+  const deployments: Deployment[] = Object.entries(entries).map(([name, value]: [string, any]) => {
+    const missing = REQUIRED_FIELDS.filter((field) => !value?.[field]);
+    if (missing.length > 0) {
+      throw new Error(`Deployment "${name}": ${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} required`);
+    }
+    if (value.apiKeys !== undefined && !Array.isArray(value.apiKeys)) {
+      throw new Error(`Deployment "${name}": apiKeys must be a list`);
+    }
+    return { capabilitiesVersion: '1', platform: 'Web', ...value, scrtUrl: normalizeScrtUrl(String(value.scrtUrl)), name };
+  });
+
+  const defaultName = document.default ?? deployments[0].name;
+  if (!deployments.some((d) => d.name === defaultName)) {
+    throw new Error(`Default deployment "${defaultName}" is not defined`);
+  }
+  return new DeploymentRegistry(deployments, defaultName);
+}
+
+/**
+ * Deployments from MIAW_DEPLOYMENTS_FILE (.json, .yaml or .yml), or the single
+ * deployment described by the MIAW_* environment variables
+ */
+export function loadDeployments(env: NodeJS.ProcessEnv = process.env): DeploymentRegistry {
+  const deploymentsFile = env.MIAW_DEPLOYMENTS_FILE;
+  if (deploymentsFile) {
+    const extension = path.extname(deploymentsFile).toLowerCase();
+    const format = extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json';
+    const registry = parseDeployments(fs.readFileSync(deploymentsFile, 'utf8'), format);
+    console.error(`Loaded deployments from ${deploymentsFile}: ${registry.names().join(', ')} (default: ${registry.defaultName})`);
+    return registry;
+  }
+
+  // Presence and format are checked by loadServerConfig() at boot
+  return new DeploymentRegistry([{
+    name: DEFAULT_DEPLOYMENT_NAME,
+    scrtUrl: normalizeScrtUrl(env.MIAW_SCRT_URL),
+    scrtProtocol: env.MIAW_SCRT_PROTOCOL?.toLowerCase() === 'http' ? 'http' : 'https',
+    orgId: env.MIAW_ORG_ID || '',
+    esDeveloperName: env.MIAW_ES_DEVELOPER_NAME || '',
+    capabilitiesVersion: env.MIAW_CAPABILITIES_VERSION || '1',
+    platform: env.MIAW_PLATFORM || 'Web',
+    eventRouterUrl: env.MIAW_EVENT_ROUTER_URL,
+    language: env.MIAW_LANGUAGE
+  }]);
+}
@@ -0,0 +1,123 @@
+/**
+ * `miaw-mcp-server doctor`
+ *
+ * Checks the configuration, then for each deployment requests a guest access
+ * token, reports what the deployment offers (pre-chat form, real-time
+ * events) and revokes the token again. Exits non-zero if anything failed, so
+ * it can gate a release pipeline.
+ */
+
+import * as types from './types.js';
+import { Deployment } from './deployments.js';
+import { checkConfig, formatConfigIssue } from './config.js';
+import { extractPrechatFields } from './prechat.js';
+
+/**
+ * The MIAWClient calls the doctor makes
+ */
+export interface DoctorClient {
+  generateGuestAccessToken(): Promise<types.AccessTokenResponse>;
+  getDeploymentConfiguration(language?: string): Promise<types.EmbeddedServiceConfiguration>;
+  getEventStream(): Promise<unknown | null>;
+  revokeToken(): Promise<void>;
+}
+
+const OK = '  ✓';
+const WARN = '  !';
+const FAIL = '  ✗';
+
+function describeError(error: any): string {
+  const status = error.response?.status;
+  const detail = error.response?.data?.message || error.message;
+  return status ? `HTTP ${status}: ${detail}` : detail;
+}
+
+/**
+ * Check one deployment end to end; returns false if it cannot serve chats
+ */
+async function checkDeployment(deployment: Deployment, client: DoctorClient, language?: string): Promise<boolean> {
+  console.log(`\nDeployment "${deployment.name}" (${deployment.esDeveloperName} in org ${deployment.orgId} at ${deployment.scrtUrl})`);
+
+  let token: types.AccessTokenResponse;
+  try {
+    token = await client.generateGuestAccessToken();
+    console.log(`${OK} Guest access token issued (expires in ${token.expiresIn ?? '?'}s)`);
+  } catch (error: any) {
+    console.log(`${FAIL} Guest access token: ${describeError(error)}`);
+    if (error.response?.status === 400) {
+      console.log('    Check the org ID and developer name, and that the deployment is published.');
+    } else if (!error.response) {
+      console.log('    Check the SCRT URL (Setup > Embedded Service Deployments > your deployment).');
+    }
+    return false;
+  }
+
+  try {
+    let configuration = token.context?.configuration;
+    if (!configuration) {
+      configuration = await client.getDeploymentConfiguration(deployment.language || language);
+    }
+    const fields = extractPrechatFields(configuration);
+    console.log(`${OK} Deployment configuration${configuration.name ? `: ${configuration.name}` : ''}`);
+    if (fields.length === 0) {
+      console.log('    Pre-chat form: none');
+    } else {
+      const visible = fields.filter((f) => !f.hidden).map((f) => `${f.name}${f.required ? ' (required)' : ''}`);
+      const hidden = fields.filter((f) => f.hidden).map((f) => f.name);
+      console.log(`    Pre-chat fields: ${visible.join(', ') || 'none'}`);
+      if (hidden.length > 0) {
+        console.log(`    Hidden pre-chat fields: ${hidden.join(', ')}`);
+      }
+    }
+    const sections = Object.keys(configuration).filter((key) => configuration![key] && typeof configuration![key] === 'object');
+    if (sections.length > 0) {
+      console.log(`    Configuration sections: ${sections.join(', ')}`);
+    }
+  } catch (error: any) {
+    console.log(`${WARN} Deployment configuration unavailable (${describeError(error)}); pre-chat fields cannot be offered`);
+  }
+
+  const stream = await client.getEventStream();
+  console.log(stream
+    ? `${OK} Real-time events: event router reachable`
+    : `${WARN} Real-time events: event router unreachable, list_conversation_entries will poll`);
+
+  try {
+    await client.revokeToken();
+  } catch (error: any) {
+    console.log(`${WARN} Could not revoke the test token (${describeError(error)})`);
+  }
+  return true;
+}
+
+/**
+ * Run every check and return the process exit code
+ */
+export async function runDoctor(
+  createClient: (deployment: Deployment) => DoctorClient,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<number> {
+  console.log('MIAW MCP Server doctor\n\nConfiguration');
+  const { issues, deployments } = checkConfig(env);
+  for (const issue of issues) {
+    console.log(`${issue.severity === 'error' ? FAIL : WARN} ${formatConfigIssue(issue)}`);
+  }
+  const errors = issues.filter((i) => i.severity === 'error');
+  if (errors.length === 0) {
+    console.log(`${OK} ${deployments!.names().length} deployment(s): ${deployments!.names().join(', ')} (default: ${deployments!.defaultName})`);
+  }
+  if (errors.length > 0 || !deployments) {
+    console.log('\nFix the configuration above, then run the doctor again.');
+    return 1;
+  }
+
+  let healthy = true;
+  for (const deployment of deployments.list()) {
+    if (!(await checkDeployment(deployment, createClient(deployment), env.MIAW_LANGUAGE))) {
+      healthy = false;
+    }
+  }
+
+  console.log(healthy ? '\nAll checks passed.' : '\nSome deployments failed; see above.');
+  return healthy ? 0 : 1;
+}
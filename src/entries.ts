@@ -0,0 +1,221 @@
+/**
+ * Conversation entry normalization
+ *
+ * Salesforce entries differ by entryType and arrive from two sources (REST
+ * and the event router). Everything downstream - tools, REST routes and the
+ * widget - works on NormalizedEntry instead of digging through entryPayload.
+ */
+
+import * as types from './types.js';
+import { EntryClass, EntryClassifier } from './classifier.js';
+import { RichContent, parseRichContent } from './rich-messages.js';
+import { parseAttachments } from './attachments.js';
+import { entryIdOf } from './event-stream.js';
+import { ValidationError } from './errors.js';
+
+export interface NormalizedAttachment {
+  id?: string;
+  name: string;
+  mimeType: string;
+  /** Salesforce URL - needs the session's token, so it is replaced by downloadUrl before leaving the server */
+  url?: string;
+  /** Short-lived signed link to this server's /api/attachment route */
+  downloadUrl?: string;
+}
+
+export interface NormalizedEntry {
+  id: string;
+  type: types.ConversationEntryType;
+  /** transcriptedTimestamp, in ms since epoch */
+  timestamp: number;
+  role: types.ParticipantRole | 'Unknown';
+  senderName: string;
+  classification: EntryClass;
+  /** Message text, or a one-line description of a non-message entry */
+  text: string;
+  /** abstractMessage.id - the id to pass as inReplyToMessageId */
+  messageId?: string;
+  inReplyToMessageId?: string;
+  messageReason?: string;
+  content?: RichContent;
+  attachments?: NormalizedAttachment[];
+  /** RoutingResult and RoutingWorkResult details */
+  routing?: {
+    type: string;
+    failureReason?: string;
+    estimatedWaitSeconds?: number;
+    positionInQueue?: number;
+  };
+  /** ParticipantChanged details */
+  participants?: Array<{ operation: string; role?: string; displayName?: string }>;
+}
+
+/**
+ * Entries from a list-entries response (Salesforce returns conversationEntries, older code expected entries)
+ */
+export function entriesOf(response: any): types.ConversationEntry[] {
+  return response?.conversationEntries || response?.entries || [];
+}
+
+function describeEvent(entry: types.ConversationEntry): string {
+  switch (entry.entryType) {
+    case 'ParticipantChanged': {
+      const changes = (entry.entryPayload?.entries || []).map((change) =>
+        `${change.displayName || change.participant?.role || 'Participant'} ${change.operation === 'remove' ? 'left' : 'joined'}`
+      );
+      if (changes.length > 0) return changes.join(', ');
+      return entry.entryPayload?.participantChangeType === 'Left' ? 'A participant left' : 'A participant joined';
+    }
+    case 'RoutingResult': {
+      const payload = entry.entryPayload;
+      if (payload?.failureType && payload.failureType !== 'None') {
+        return `Routing failed: ${payload.failureReason || payload.failureType}`;
+      }
+      return payload?.routingType === 'EndConversation' ? 'Conversation ended' : `Routed (${payload?.routingType || 'Initial'})`;
+    }
+    case 'RoutingWorkResult':
+      return `Work ${String(entry.entryPayload?.workType || 'updated').toLowerCase()}`;
+    case 'ConversationClose':
+      return 'Conversation closed';
+    case 'TypingStartedIndicator':
+      return `${entry.senderDisplayName || 'Someone'} is typing`;
+    case 'TypingStoppedIndicator':
+      return `${entry.senderDisplayName || 'Someone'} stopped typing`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Convert one raw entry into a NormalizedEntry
+ */
+export function normalizeEntry(entry: types.ConversationEntry, classifier: EntryClassifier): NormalizedEntry {
+  const normalized: NormalizedEntry = {
+    id: entryIdOf(entry),
+    type: entry.entryType,
+    timestamp: entry.transcriptedTimestamp || 0,
+    role: entry.sender?.role || 'Unknown',
+    senderName: entry.senderDisplayName || '',
+    classification: classifier.classify(entry).class,
+    text: describeEvent(entry)
+  };
+
+  switch (entry.entryType) {
+    case 'Message': {
+      const message = entry.entryPayload?.abstractMessage;
+      const content = parseRichContent(entry);
+      normalized.messageId = message?.id || entry.entryPayload?.id;
+      normalized.inReplyToMessageId = message?.inReplyToMessageId;
+      normalized.messageReason = entry.entryPayload?.messageReason;
+      normalized.text = content?.text || '';
+      if (content && content.kind !== 'text') {
+        normalized.content = content;
+      }
+      const attachments = parseAttachments(entry);
+      if (attachments.length > 0) {
+        normalized.attachments = attachments;
+      }
+      break;
+    }
+    case 'RoutingResult':
+      normalized.routing = {
+        type: entry.entryPayload?.routingType,
+        failureReason: entry.entryPayload?.failureReason,
+        estimatedWaitSeconds: entry.entryPayload?.estimatedWaitTime?.estimatedWaitTimeInSeconds,
+        positionInQueue: entry.entryPayload?.estimatedWaitTime?.positionInQueue
+      };
+      break;
+    case 'RoutingWorkResult':
+      normalized.routing = { type: entry.entryPayload?.workType };
+      break;
+    case 'ParticipantChanged':
+      normalized.participants = (entry.entryPayload?.entries || []).map((change) => ({
+        operation: change.operation,
+        role: change.participant?.role,
+        displayName: change.displayName
+      }));
+      break;
+  }
+  return normalized;
+}
+
+/**
+ * Normalize, de-duplicate (Salesforce sometimes returns an entry twice) and sort oldest first
+ */
+export function normalizeEntries(entries: types.ConversationEntry[], classifier: EntryClassifier): NormalizedEntry[] {
+  const seen = new Set<string>();
+  const normalized: NormalizedEntry[] = [];
+  for (const entry of entries) {
+    const item = normalizeEntry(entry, classifier);
+    if (seen.has(item.id)) continue;
+    seen.add(item.id);
+    normalized.push(item);
+  }
+  return normalized.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * A Chatbot or Agent reply that should be shown to the user
+ */
+export function isResponseEntry(entry: NormalizedEntry): boolean {
+  return entry.classification === 'bot' || entry.classification === 'agent';
+}
+
+/**
+ * Closure entries that still stand. A ConversationClose always does; any
+ * other (a participant leaving, an "agent ended the chat" message) only until
+ * someone joins or replies after it - the bot leaves on every transfer.
+ */
+export function closingEntries(entries: NormalizedEntry[]): NormalizedEntry[] {
+  let resumedAt = -1;
+  entries.forEach((entry, index) => {
+    if (isResponseEntry(entry) || (entry.type === 'ParticipantChanged' && entry.classification !== 'closure')) {
+      resumedAt = index;
+    }
+  });
+  return entries.filter((entry, index) =>
+    entry.classification === 'closure' && (entry.type === 'ConversationClose' || index > resumedAt)
+  );
+}
+
+export interface EntryCursor {
+  entryId?: string;
+  timestamp?: number;
+}
+
+/**
+ * The cursor handed to callers: "<timestamp>:<entryId>", so it still works
+ * once that entry is no longer in the list
+ */
+export function formatCursor(cursor: EntryCursor): string | undefined {
+  if (!cursor.entryId) return undefined;
+  return cursor.timestamp === undefined ? cursor.entryId : `${cursor.timestamp}:${cursor.entryId}`;
+}
+
+/**
+ * Read a `since` value: a cursor from formatCursor, or a bare entry id
+ */
+export function parseCursor(value: string): EntryCursor {
+  const match = /^(\d+):(.+)$/.exec(value);
+  return match ? { timestamp: Number(match[1]), entryId: match[2] } : { entryId: value };
+}
+
+/**
+ * Entries (sorted oldest first) strictly after the cursor. The id is exact;
+ * the timestamp is the fallback when that entry is no longer in the list.
+ * An empty cursor means from the start.
+ */
+export function entriesAfter(entries: NormalizedEntry[], cursor: EntryCursor): NormalizedEntry[] {
+  if (cursor.entryId) {
+    const index = entries.findIndex((e) => e.id === cursor.entryId);
+    if (index >= 0) {
+      return entries.slice(index + 1);
+    }
+    if (cursor.timestamp === undefined) {
+      // Without a timestamp there is no telling where the entry was - never fall back to the full history
+      throw new ValidationError(`Entry ${cursor.entryId} is not in this conversation; pass the cursor from the last response as since`, 'CURSOR_NOT_FOUND');
+    }
+  }
+  const since = cursor.timestamp || 0;
+  return entries.filter((e) => e.timestamp > since);
+}
@@ -0,0 +1,250 @@
+/**
+ * Errors surfaced to MCP and REST callers with a stable code
+ *
+ * Every error a caller sees is a MiawError: a stable `code`, a `category`
+ * clients can branch on, the HTTP status /api/* answers with, and retry
+ * hints. MCP tool calls return it as an `isError: true` result, REST as the
+ * JSON body. Anything else thrown inside a tool goes through toMiawError().
+ */
+
+import axios from 'axios';
+
+export type MiawErrorCategory =
+  | 'auth'
+  | 'session'
+  | 'rate_limit'
+  | 'routing'
+  | 'validation'
+  | 'upstream'
+  | 'config'
+  | 'internal';
+
+export interface MiawErrorBody {
+  code: string;
+  category: MiawErrorCategory;
+  message: string;
+  /** True if the same call may succeed if retried unchanged */
+  retryable: boolean;
+  /** Seconds to wait before retrying, when known */
+  retryAfterSeconds?: number;
+  details?: Record<string, any>;
+}
+
+export interface MiawErrorOptions {
+  code: string;
+  category: MiawErrorCategory;
+  httpStatus: number;
+  retryable?: boolean;
+  retryAfterSeconds?: number;
+  details?: Record<string, any>;
+}
+
+export class MiawError extends Error {
+  readonly code: string;
+  readonly category: MiawErrorCategory;
+  readonly httpStatus: number;
+  readonly retryable: boolean;
+  readonly retryAfterSeconds?: number;
+  readonly details?: Record<string, any>;
+
+  constructor(message: string, options: MiawErrorOptions) {
+    super(message);
+    this.name = 'MiawError';
+    this.code = options.code;
+    this.category = options.category;
+    this.httpStatus = options.httpStatus;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.details = options.details;
+  }
+
+  toJSON(): MiawErrorBody {
+    return {
+      code: this.code,
+      category: this.category,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.retryAfterSeconds !== undefined && { retryAfterSeconds: this.retryAfterSeconds }),
+      ...(this.details && { details: this.details })
+    };
+  }
+}
+
+/**
+ * Salesforce rejected the access token or the customer identity
+ */
+export class AuthError extends MiawError {
+  constructor(message: string, code: string = 'AUTH_FAILED', httpStatus: number = 401) {
+    super(message, { code, category: 'auth', httpStatus });
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * No session with this id (never created, or forgotten after a restart)
+ */
+export class SessionNotFoundError extends MiawError {
+  constructor(message: string = 'Invalid sessionId. Please generate a new session first.') {
+    super(message, { code: 'SESSION_NOT_FOUND', category: 'session', httpStatus: 404 });
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+/**
+ * The session existed but has expired (idle TTL, token expiry or closed conversation)
+ */
+export class SessionExpiredError extends MiawError {
+  constructor(sessionId: string, reason: string) {
+    super(`Session ${sessionId} has expired (${reason}). Please generate a new session.`, {
+      code: 'SESSION_EXPIRED',
+      category: 'session',
+      httpStatus: 410
+    });
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * Salesforce is throttling this org or deployment
+ */
+export class RateLimitError extends MiawError {
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, { code: 'RATE_LIMITED', category: 'rate_limit', httpStatus: 429, retryable: true, retryAfterSeconds });
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The conversation can't be reached from this session (wrong conversation, none open)
+ */
+export class RoutingError extends MiawError {
+  constructor(message: string, code: string = 'ROUTING_FAILED', httpStatus: number = 409) {
+    super(message, { code, category: 'routing', httpStatus });
+    this.name = 'RoutingError';
+  }
+}
+
+/**
+ * The caller sent something we won't pass on to Salesforce
+ */
+export class ValidationError extends MiawError {
+  constructor(message: string, code: string = 'INVALID_REQUEST', details?: Record<string, any>, httpStatus: number = 400) {
+    super(message, { code, category: 'validation', httpStatus, details });
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Tool arguments do not match the tool's inputSchema
+ */
+export class InvalidArgumentsError extends ValidationError {
+  constructor(toolName: string, readonly problems: string[]) {
+    super(`Invalid arguments for ${toolName}: ${problems.join('; ')}`, 'INVALID_ARGUMENTS', { problems });
+    this.name = 'InvalidArgumentsError';
+  }
+}
+
+/**
+ * Pre-chat values supplied for create_conversation do not satisfy the deployment's form
+ */
+export class PrechatValidationError extends ValidationError {
+  constructor(readonly fieldErrors: string[]) {
+    super(`Invalid pre-chat fields: ${fieldErrors.join('; ')}`, 'PRECHAT_INVALID', { problems: fieldErrors });
+    this.name = 'PrechatValidationError';
+  }
+}
+
+/**
+ * A deployment name (argument, endpoint path or API key) that is not configured
+ */
+export class UnknownDeploymentError extends ValidationError {
+  constructor(name: string, available: string[]) {
+    super(`Unknown deployment "${name}". Available deployments: ${available.join(', ')}`, 'UNKNOWN_DEPLOYMENT', { available });
+    this.name = 'UnknownDeploymentError';
+  }
+}
+
+/**
+ * Salesforce failed or answered with an error we have no better mapping for
+ */
+export class UpstreamError extends MiawError {
+  constructor(message: string, options: Omit<MiawErrorOptions, 'category'>) {
+    super(message, { ...options, category: 'upstream' });
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * Environment or deployments file fails validation at startup
+ */
+export class ConfigError extends MiawError {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((p) => `  - ${p}`).join('\n')}`, {
+      code: 'CONFIG_INVALID',
+      category: 'config',
+      httpStatus: 500
+    });
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Retry-After header (seconds or HTTP date) in seconds
+ */
+function retryAfterOf(headers: Record<string, any> | undefined): number | undefined {
+  const value = headers?.['retry-after'];
+  if (value === undefined) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Map anything thrown while handling a call onto the error model
+ */
+export function toMiawError(error: unknown): MiawError {
+  if (error instanceof MiawError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const data: any = error.response?.data;
+    const message = data?.error?.message || data?.message || error.message;
+    const details = data?.error?.code || data?.error?.details
+      ? { salesforceCode: data.error.code, salesforceDetails: data.error.details }
+      : undefined;
+    const status = error.response?.status;
+
+    if (!status) {
+      const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+      return new UpstreamError(timedOut ? 'Salesforce did not respond in time' : `Salesforce is unreachable (${error.code || message})`, {
+        code: timedOut ? 'UPSTREAM_TIMEOUT' : 'UPSTREAM_UNAVAILABLE',
+        httpStatus: timedOut ? 504 : 503,
+        retryable: true
+      });
+    }
+    if (status === 401 || status === 403) {
+      return new AuthError(message, 'AUTH_FAILED', status);
+    }
+    if (status === 429) {
+      return new RateLimitError(message, retryAfterOf(error.response?.headers));
+    }
+    if (status >= 500) {
+      return new UpstreamError(message, {
+        code: 'UPSTREAM_ERROR',
+        httpStatus: 502,
+        retryable: true,
+        retryAfterSeconds: retryAfterOf(error.response?.headers),
+        details: { ...details, status }
+      });
+    }
+    return new UpstreamError(message, { code: 'UPSTREAM_REJECTED', httpStatus: status, details: { ...details, status } });
+  }
+
+  return new MiawError(error instanceof Error ? error.message : 'Unknown error occurred', {
+    code: 'INTERNAL_ERROR',
+    category: 'internal',
+    httpStatus: 500
+  });
+}
@@ -0,0 +1,377 @@
+/**
+ * Server-sent-events subscription to the MIAW event router
+ *
+ * Salesforce pushes conversation activity (messages, typing, routing and
+ * participant changes) to GET /eventrouter/v1/sse. Holding one subscription
+ * per access token lets tool calls and REST routes answer from an in-memory
+ * buffer instead of hammering /conversation/{id}/entries.
+ */
+
+import axios from 'axios';
+import { EventEmitter } from 'events';
+import type { IncomingMessage } from 'http';
+
+/**
+ * Event types we buffer. Anything else (acknowledgements, etc.) is ignored.
+ */
+export const BUFFERED_EVENT_TYPES = [
+  'CONVERSATION_MESSAGE',
+  'CONVERSATION_ROUTING_RESULT',
+  'CONVERSATION_PARTICIPANT_CHANGED',
+  'CONVERSATION_CLOSE_CONVERSATION'
+];
+
+export const TYPING_EVENT_TYPES = [
+  'CONVERSATION_TYPING_STARTED_INDICATOR',
+  'CONVERSATION_TYPING_STOPPED_INDICATOR'
+];
+
+export interface EventStreamOptions {
+  /** Full URL of the SSE endpoint, e.g. https://{scrt}/eventrouter/v1/sse */
+  url: string;
+  orgId: string;
+  accessToken: string;
+  /** How long to wait for the response headers on each connection attempt (not an idle timeout) */
+  connectTimeoutMs?: number;
+  /** Upper bound for the reconnect backoff */
+  maxReconnectDelayMs?: number;
+}
+
+export interface TypingState {
+  isTyping: boolean;
+  senderDisplayName?: string;
+  role?: string;
+  timestamp: number;
+}
+
+interface ConversationBuffer {
+  entries: any[];
+  seenIds: Set<string>;
+  /** True once the REST history has been merged in */
+  seeded: boolean;
+  typing?: TypingState;
+}
+
+/**
+ * Parse one raw SSE event block into { id, event, data }
+ */
+function parseEventBlock(block: string): { id?: string; event?: string; data: string } | null {
+  let id: string | undefined;
+  let event: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue; // comment / keep-alive
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    let value = colon === -1 ? '' : line.substring(colon + 1);
+    if (value.startsWith(' ')) value = value.substring(1);
+
+    if (field === 'id') id = value;
+    else if (field === 'event') event = value;
+    else if (field === 'data') dataLines.push(value);
+  }
+
+  if (!event && dataLines.length === 0) return null;
+  return { id, event, data: dataLines.join('\n') };
+}
+
+/**
+ * Entry identifier used for de-duplication across SSE and REST
+ */
+export function entryIdOf(entry: any): string {
+  return entry?.identifier || entry?.entryPayload?.id || String(entry?.transcriptedTimestamp ?? '');
+}
+
+/**
+ * SSE events carry entryPayload as a JSON string, REST returns an object.
+ * Normalize to the REST shape so existing filters keep working.
+ */
+function toRestShape(conversationEntry: any): any {
+  if (typeof conversationEntry?.entryPayload === 'string') {
+    try {
+      return { ...conversationEntry, entryPayload: JSON.parse(conversationEntry.entryPayload) };
+    } catch {
+      return conversationEntry;
+    }
+  }
+  return conversationEntry;
+}
+
+/**
+ * One live SSE subscription bound to a single access token
+ */
+export class MIAWEventStream extends EventEmitter {
+  private options: Required<EventStreamOptions>;
+  private buffers = new Map<string, ConversationBuffer>();
+  private lastEventId: string | undefined;
+  private response: IncomingMessage | null = null;
+  private abortController: AbortController | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectDelay = 1000;
+  private closed = false;
+  private connected = false;
+
+  constructor(options: EventStreamOptions) {
+    super();
+    this.options = {
+      connectTimeoutMs: 10000,
+      maxReconnectDelayMs: 30000,
+      ...options
+    };
+  }
+
+  /**
+   * Whether the subscription currently has an open connection
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Open the subscription. Resolves once the event router accepts it,
+   * rejects if the first connection attempt fails.
+   */
+  async connect(): Promise<void> {
+    this.closed = false;
+    await this.open();
+  }
+
+  private async open(): Promise<void> {
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    const headers: Record<string, string> = {
+      Accept: 'text/event-stream',
+      Authorization: `Bearer ${this.options.accessToken}`,
+      'X-Org-Id': this.options.orgId
+    };
+    if (this.lastEventId) {
+      headers['Last-Event-Id'] = this.lastEventId;
+    }
+
+    // Bound only the handshake. axios' own timeout is an idle timeout on the
+    // socket, so it would also cut a subscription that is quiet for that long.
+    let timedOut = false;
+    const connectTimer = setTimeout(() => {
+      timedOut = true;
+      abortController.abort();
+    }, this.options.connectTimeoutMs);
+
+    let response;
+    try {
+      response = await axios.get<IncomingMessage>(this.options.url, {
+        headers,
+        responseType: 'stream',
+        signal: abortController.signal
+      });
+    } catch (error) {
+      if (timedOut) {
+        throw new Error(`Event router did not answer within ${this.options.connectTimeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      // The headers are in (or the attempt failed); the stream itself stays open
+      clearTimeout(connectTimer);
+    }
+
+    this.response = response.data;
+    this.connected = true;
+    this.reconnectDelay = 1000;
+    console.error('MIAW event stream connected:', this.options.url);
+    this.emit('connected');
+
+    let pending = '';
+    this.response.setEncoding('utf8');
+    this.response.on('data', (chunk: string) => {
+      pending += chunk;
+      let boundary = pending.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = pending.substring(0, boundary);
+        pending = pending.substring(boundary).replace(/^\r?\n\r?\n/, '');
+        this.handleBlock(block);
+        boundary = pending.search(/\r?\n\r?\n/);
+      }
+    });
+    this.response.on('end', () => this.handleDisconnect('stream ended'));
+    this.response.on('error', (error) => this.handleDisconnect(error.message));
+  }
+
+  private handleBlock(block: string) {
+    const parsed = parseEventBlock(block);
+    if (!parsed) return;
+    if (parsed.id) this.lastEventId = parsed.id;
+
+    const eventType = parsed.event || '';
+    if (!BUFFERED_EVENT_TYPES.includes(eventType) && !TYPING_EVENT_TYPES.includes(eventType)) {
+      return;
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(parsed.data);
+    } catch {
+      console.error('MIAW event stream: could not parse data for', eventType);
+      return;
+    }
+
+    const conversationId: string | undefined = payload.conversationId;
+    const entry = toRestShape(payload.conversationEntry);
+    if (!conversationId || !entry) return;
+
+    const buffer = this.bufferFor(conversationId);
+
+    if (TYPING_EVENT_TYPES.includes(eventType)) {
+      buffer.typing = {
+        isTyping: eventType === 'CONVERSATION_TYPING_STARTED_INDICATOR',
+        senderDisplayName: entry.senderDisplayName,
+        role: entry.sender?.role,
+        timestamp: entry.transcriptedTimestamp || Date.now()
+      };
+      this.emit('typing', conversationId, buffer.typing);
+      return;
+    }
+
+    if (this.addEntry(buffer, entry)) {
+      this.emit('entry', conversationId, entry);
+    }
+  }
+
+  private handleDisconnect(reason: string) {
+    if (!this.connected) return;
+    this.connected = false;
+    this.response = null;
+    this.emit('disconnected', reason);
+    if (this.closed) return;
+
+    console.error(`MIAW event stream disconnected (${reason}), reconnecting in ${this.reconnectDelay}ms`);
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.open();
+      } catch (error: any) {
+        console.error('MIAW event stream reconnect failed:', error.response?.status || error.message);
+        // 401/403 means the token is gone - stop instead of retrying forever
+        if (error.response?.status === 401 || error.response?.status === 403) {
+          this.close();
+          return;
+        }
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.options.maxReconnectDelayMs);
+        this.scheduleReconnect();
+      }
+    }, this.reconnectDelay);
+  }
+
+  private bufferFor(conversationId: string): ConversationBuffer {
+    let buffer = this.buffers.get(conversationId);
+    if (!buffer) {
+      buffer = { entries: [], seenIds: new Set(), seeded: false };
+      this.buffers.set(conversationId, buffer);
+    }
+    return buffer;
+  }
+
+  private addEntry(buffer: ConversationBuffer, entry: any): boolean {
+    const id = entryIdOf(entry);
+    if (buffer.seenIds.has(id)) return false;
+    buffer.seenIds.add(id);
+    buffer.entries.push(entry);
+    return true;
+  }
+
+  /**
+   * Whether REST history has already been merged for this conversation
+   */
+  isSeeded(conversationId: string): boolean {
+    return this.buffers.get(conversationId)?.seeded ?? false;
+  }
+
+  /**
+   * Merge entries fetched over REST (history from before we subscribed)
+   */
+  seed(conversationId: string, entries: any[]) {
+    const buffer = this.bufferFor(conversationId);
+    for (const entry of entries) {
+      this.addEntry(buffer, entry);
+    }
+    buffer.seeded = true;
+  }
+
+  /**
+   * Snapshot of buffered entries for a conversation
+   */
+  getEntries(conversationId: string): any[] {
+    return [...(this.buffers.get(conversationId)?.entries ?? [])];
+  }
+
+  /**
+   * Most recent typing indicator state for a conversation
+   */
+  getTypingState(conversationId: string): TypingState | undefined {
+    return this.buffers.get(conversationId)?.typing;
+  }
+
+  /**
+   * Resolve when the next entry for the conversation arrives, or after timeoutMs.
+   * Returns true if an entry arrived.
+   */
+  waitForEntry(conversationId: string, timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      if (timeoutMs <= 0) {
+        resolve(false);
+        return;
+      }
+      const onEntry = (id: string) => {
+        if (id !== conversationId) return;
+        cleanup();
+        resolve(true);
+      };
+      const onDisconnect = () => {
+        cleanup();
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        resolve(false);
+      }, timeoutMs);
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off('entry', onEntry);
+        this.off('disconnected', onDisconnect);
+      };
+      this.on('entry', onEntry);
+      this.on('disconnected', onDisconnect);
+    });
+  }
+
+  /**
+   * Drop the buffer for a conversation (after it is closed)
+   */
+  forget(conversationId: string) {
+    this.buffers.delete(conversationId);
+  }
+
+  /**
+   * Close the subscription and stop reconnecting
+   */
+  close() {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.abortController?.abort();
+    this.response?.destroy();
+    this.response = null;
+    if (this.connected) {
+      this.connected = false;
+      this.emit('disconnected', 'closed');
+    }
+    this.removeAllListeners('entry');
+    this.removeAllListeners('typing');
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Resilient HTTP to Salesforce: retries, backoff and a circuit breaker
+ *
+ * Installed as axios interceptors on each MIAWClient, so the client's
+ * methods stay plain calls:
+ *   - every request gets a timeout tuned to its endpoint (unless it sets one)
+ *   - failures are retried with jittered exponential backoff, honoring
+ *     Retry-After. Idempotent requests (GET/DELETE and acknowledgement
+ *     POSTs) are retried on timeouts and 5xx; any other request, token mints
+ *     included, only when Salesforce cannot have acted on it (429, or no
+ *     connection was made)
+ *   - a circuit breaker per deployment stops calling an SCRT that keeps
+ *     failing and answers CIRCUIT_OPEN until a trial request succeeds. It
+ *     counts calls, not attempts: a call fails once its retries ran out
+ */
+
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { UpstreamError } from './errors.js';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt (MIAW_HTTP_MAX_RETRIES) */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles each time (MIAW_HTTP_RETRY_BASE_MS) */
+  baseDelayMs: number;
+  /** Longest wait before a retry; a longer Retry-After is returned to the caller instead (MIAW_HTTP_RETRY_MAX_MS) */
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failed calls (after their retries) that open the circuit (MIAW_CIRCUIT_FAILURE_THRESHOLD) */
+  failureThreshold: number;
+  /** How long it stays open before a trial request (MIAW_CIRCUIT_OPEN_MS) */
+  openMs: number;
+}
+
+interface EndpointPolicy {
+  method?: string;
+  pattern: RegExp;
+  timeoutMs: number;
+  /** Safe to repeat after a timeout or 5xx (GET/DELETE are always) */
+  idempotent?: boolean;
+  /** Never retried (the body can't be replayed) */
+  noRetry?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// First match wins; paths are relative to /iamessage/api/v2
+const ENDPOINT_POLICIES: EndpointPolicy[] = [
+  // A token POST that timed out may have minted a token, so it is not idempotent
+  { pattern: /^\/authorization\//, timeoutMs: 10000 },
+  { method: 'post', pattern: /^\/conversation\/[^/]+\/file$/, timeoutMs: 120000, noRetry: true },
+  { method: 'post', pattern: /^\/conversation\/[^/]+\/(acknowledge-entries|entry)$/, timeoutMs: 5000, idempotent: true },
+  { method: 'post', pattern: /^\/conversation\/[^/]+\/message$/, timeoutMs: 15000 },
+  { method: 'post', pattern: /^\/conversation$/, timeoutMs: 20000 },
+  { method: 'get', pattern: /^\/conversations?\//, timeoutMs: 10000 },
+  { method: 'delete', pattern: /^\/conversation\//, timeoutMs: 10000 }
+];
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+
+// The request never reached Salesforce, so repeating it can't duplicate anything
+const NOT_SENT_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function loadRetryPolicy(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+  return {
+    maxRetries: readNumber(env.MIAW_HTTP_MAX_RETRIES, 2),
+    baseDelayMs: readNumber(env.MIAW_HTTP_RETRY_BASE_MS, 250),
+    maxDelayMs: readNumber(env.MIAW_HTTP_RETRY_MAX_MS, 5000)
+  };
+}
+
+export function loadCircuitBreakerOptions(env: NodeJS.ProcessEnv = process.env): CircuitBreakerOptions {
+  return {
+    failureThreshold: Math.max(1, readNumber(env.MIAW_CIRCUIT_FAILURE_THRESHOLD, 5)),
+    openMs: readNumber(env.MIAW_CIRCUIT_OPEN_MS, 30000)
+  };
+}
+
+/**
+ * closed -> (failureThreshold consecutive failures) -> open -> (openMs) ->
+ * half-open: one trial request; success closes, failure re-opens
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(readonly name: string, private options: CircuitBreakerOptions) {}
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.failures < this.options.failureThreshold) return 'closed';
+    return Date.now() - this.openedAt >= this.options.openMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Throws CIRCUIT_OPEN unless a request may go out now
+   */
+  admit(): void {
+    const state = this.state;
+    if (state === 'closed') return;
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    const retryAfterSeconds = Math.max(1, Math.ceil((this.openedAt + this.options.openMs - Date.now()) / 1000));
+    throw new UpstreamError(`Salesforce is failing for deployment ${this.name}; calls are paused for ${retryAfterSeconds}s`, {
+      code: 'CIRCUIT_OPEN',
+      httpStatus: 503,
+      retryable: true,
+      retryAfterSeconds
+    });
+  }
+
+  recordSuccess(): void {
+    if (this.failures >= this.options.failureThreshold) {
+      console.error(`Circuit for ${this.name} closed`);
+    }
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.failures >= this.options.failureThreshold) {
+      if (this.failures === this.options.failureThreshold) {
+        console.error(`Circuit for ${this.name} opened after ${this.failures} consecutive failures`);
+      }
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+const retryPolicy = loadRetryPolicy();
+const breakerOptions = loadCircuitBreakerOptions();
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * The shared breaker for a deployment (all of its sessions' clients)
+ */
+export function circuitBreakerFor(deploymentKey: string): CircuitBreaker {
+  let breaker = breakers.get(deploymentKey);
+  if (!breaker) {
+    breaker = new CircuitBreaker(deploymentKey, breakerOptions);
+    breakers.set(deploymentKey, breaker);
+  }
+  return breaker;
+}
+
+function endpointPolicy(config: InternalAxiosRequestConfig): EndpointPolicy | undefined {
+  const method = (config.method || 'get').toLowerCase();
+  const path = (config.url || '').replace(/\?.*$/, '');
+  return ENDPOINT_POLICIES.find((p) => (!p.method || p.method === method) && p.pattern.test(path));
+}
+
+/**
+ * Retry-After (seconds or HTTP date) in milliseconds
+ */
+function retryAfterMs(error: AxiosError): number | undefined {
+  const value = error.response?.headers?.['retry-after'];
+  if (value === undefined || value === null) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Network errors, timeouts and 5xx mean Salesforce is unhealthy; a 4xx means it answered
+ */
+function isOutage(error: AxiosError): boolean {
+  const status = error.response?.status;
+  return status === undefined ? error.code !== 'ERR_CANCELED' : status >= 500;
+}
+
+function isRetryable(error: AxiosError, config: InternalAxiosRequestConfig, policy?: EndpointPolicy): boolean {
+  if (policy?.noRetry) return false;
+  const status = error.response?.status;
+  if (status === 429 || (!status && NOT_SENT_CODES.has(error.code || ''))) {
+    return true;
+  }
+  const idempotent = policy?.idempotent || IDEMPOTENT_METHODS.has((config.method || 'get').toLowerCase());
+  if (!idempotent) return false;
+  return status === undefined ? TIMEOUT_CODES.has(error.code || '') || error.code === 'ECONNRESET' : status >= 500;
+}
+
+/**
+ * Full-jitter exponential backoff, never shorter than Retry-After; null when
+ * the wait would exceed maxDelayMs
+ */
+function retryDelay(error: AxiosError, retry: number, policy: RetryPolicy): number | null {
+  const backoff = Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  const retryAfter = retryAfterMs(error);
+  if (retryAfter === undefined) return backoff;
+  return retryAfter > policy.maxDelayMs ? null : Math.max(retryAfter, backoff);
+}
+
+type RetriableConfig = InternalAxiosRequestConfig & { retryCount?: number };
+
+/**
+ * Add timeouts, retries and the circuit breaker to a Salesforce axios instance
+ */
+export function installResilience(instance: AxiosInstance, breaker: CircuitBreaker, policy: RetryPolicy = retryPolicy): void {
+  instance.interceptors.request.use((config: RetriableConfig) => {
+    // A retry belongs to a call the breaker already admitted
+    if (config.retryCount === undefined) {
+      breaker.admit();
+    }
+    if (!config.timeout) {
+      config.timeout = endpointPolicy(config)?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    }
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      breaker.recordSuccess();
+      return response;
+    },
+    async (error) => {
+      // Not an HTTP failure (e.g. CIRCUIT_OPEN from the request interceptor)
+      if (!axios.isAxiosError(error) || !error.config) {
+        throw error;
+      }
+      const config = error.config as RetriableConfig;
+      const retry = (config.retryCount ?? 0) + 1;
+      const delayMs = retry <= policy.maxRetries && isRetryable(error, config, endpointPolicy(config))
+        ? retryDelay(error, retry, policy)
+        : null;
+      if (delayMs === null) {
+        // The call is over: one failure for the breaker, however many attempts it took
+        if (isOutage(error)) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+        throw error;
+      }
+
+      config.retryCount = retry;
+      console.error(`Retrying ${config.method?.toUpperCase()} ${config.url} (${error.response?.status || error.code}), attempt ${retry + 1} in ${Math.round(delayMs)}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return instance.request(config);
+    }
+  );
+}
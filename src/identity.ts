@@ -0,0 +1,151 @@
+/**
+ * Customer identity tokens for verified (authenticated) MIAW sessions
+ *
+ * Salesforce's authenticated access-token endpoint takes a customer-identity
+ * JWT signed by a key registered in the org's User Verification settings.
+ * The token comes from one of (in priority order):
+ *   1. an upstream IdP, forwarded in the MIAW_JWT_IDENTITY_HEADER header
+ *   2. this server, signing for the subject in the trusted MIAW_JWT_SUBJECT_HEADER header
+ *   3. this server, signing for a `subject` tool argument (only if MIAW_JWT_ALLOW_SUBJECT_ARG=true)
+ *
+ * The two headers are only believed on requests that also carry
+ * X-MIAW-Identity-Secret with the MIAW_JWT_HEADER_SECRET value, i.e. requests
+ * that came through the gateway that set them. Anything else could name any
+ * customer.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { AuthError, ConfigError } from './errors.js';
+
+export interface IdentityConfig {
+  privateKey?: string;
+  keyId?: string;
+  issuer?: string;
+  audience?: string;
+  ttlSeconds: number;
+  identityHeader?: string;
+  subjectHeader?: string;
+  /** Shared secret the gateway sends in IDENTITY_SECRET_HEADER alongside the identity headers */
+  headerSecret?: string;
+  allowSubjectArg: boolean;
+}
+
+export const IDENTITY_SECRET_HEADER = 'x-miaw-identity-secret';
+
+export type RequestHeaders = Record<string, string | string[] | undefined>;
+
+/**
+ * Read identity settings from the environment
+ */
+export function loadIdentityConfig(env: NodeJS.ProcessEnv = process.env): IdentityConfig {
+  let privateKey = env.MIAW_JWT_PRIVATE_KEY;
+  if (!privateKey && env.MIAW_JWT_PRIVATE_KEY_FILE) {
+    privateKey = fs.readFileSync(env.MIAW_JWT_PRIVATE_KEY_FILE, 'utf8');
+  }
+
+  return {
+    // Heroku config vars can't hold real newlines; accept escaped ones
+    privateKey: privateKey?.replace(/\\n/g, '\n'),
+    keyId: env.MIAW_JWT_KEY_ID,
+    issuer: env.MIAW_JWT_ISSUER,
+    audience: env.MIAW_JWT_AUDIENCE,
+    ttlSeconds: parseInt(env.MIAW_JWT_TTL || '300', 10),
+    identityHeader: env.MIAW_JWT_IDENTITY_HEADER?.toLowerCase(),
+    subjectHeader: env.MIAW_JWT_SUBJECT_HEADER?.toLowerCase(),
+    headerSecret: env.MIAW_JWT_HEADER_SECRET || undefined,
+    allowSubjectArg: env.MIAW_JWT_ALLOW_SUBJECT_ARG === 'true'
+  };
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function headerValue(headers: RequestHeaders | undefined, name: string | undefined): string | undefined {
+  if (!headers || !name) return undefined;
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Whether the request carries the gateway's shared secret (compared in constant time)
+ */
+function fromTrustedGateway(config: IdentityConfig, headers: RequestHeaders | undefined): boolean {
+  const presented = headerValue(headers, IDENTITY_SECRET_HEADER);
+  if (!config.headerSecret || !presented) return false;
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(presented), digest(config.headerSecret));
+}
+
+/**
+ * Sign an RS256 customer-identity JWT for the given subject
+ */
+export function signIdentityToken(config: IdentityConfig, subject: string, claims: Record<string, any> = {}): string {
+  if (!config.privateKey) {
+    throw new ConfigError(['MIAW_JWT_PRIVATE_KEY (or MIAW_JWT_PRIVATE_KEY_FILE) is required to sign identity tokens']);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const header: Record<string, string> = { alg: 'RS256', typ: 'JWT' };
+  if (config.keyId) header.kid = config.keyId;
+
+  const payload: Record<string, any> = {
+    ...claims,
+    sub: subject,
+    iat: now,
+    exp: now + config.ttlSeconds,
+    jti: crypto.randomUUID()
+  };
+  if (config.issuer) payload.iss = config.issuer;
+  if (config.audience) payload.aud = config.audience;
+
+  const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(signingInput), config.privateKey);
+  return `${signingInput}.${base64url(signature)}`;
+}
+
+/**
+ * Decode (without verifying) a JWT's subject - Salesforce does the verification
+ */
+export function subjectOf(jwt: string): string | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.sub === 'string' ? payload.sub : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Work out which customer-identity JWT to exchange for this request
+ */
+export function resolveIdentityToken(
+  config: IdentityConfig,
+  headers: RequestHeaders | undefined,
+  subjectArg?: string
+): { jwt: string; subject?: string; source: 'upstream' | 'signed' } {
+  const upstream = headerValue(headers, config.identityHeader);
+  const trustedSubject = headerValue(headers, config.subjectHeader);
+  if ((upstream || trustedSubject) && !fromTrustedGateway(config, headers)) {
+    throw new AuthError(`Identity headers are only accepted with a valid ${IDENTITY_SECRET_HEADER} header (MIAW_JWT_HEADER_SECRET)`, 'IDENTITY_HEADER_UNTRUSTED', 401);
+  }
+
+  if (upstream) {
+    const jwt = upstream.replace(/^Bearer\s+/i, '');
+    return { jwt, subject: subjectOf(jwt), source: 'upstream' };
+  }
+
+  if (trustedSubject) {
+    return { jwt: signIdentityToken(config, trustedSubject), subject: trustedSubject, source: 'signed' };
+  }
+
+  if (subjectArg) {
+    if (!config.allowSubjectArg) {
+      throw new AuthError('Signing for a caller-supplied subject is disabled. Set MIAW_JWT_ALLOW_SUBJECT_ARG=true or send identity via a trusted header.', 'SUBJECT_NOT_ALLOWED', 403);
+    }
+    return { jwt: signIdentityToken(config, subjectArg), subject: subjectArg, source: 'signed' };
+  }
+
+  throw new AuthError('No customer identity available for a verified session. Configure MIAW_JWT_IDENTITY_HEADER or MIAW_JWT_SUBJECT_HEADER.', 'IDENTITY_REQUIRED');
+}
@@ -7,28 +7,81 @@
  * Enhanced Chat messaging system, allowing them to escalate conversations
  * to human or AI agents within Salesforce when needed.
  * 
- * Supports both stdio (local) and HTTP/SSE (hosted) transports.
+ * Supports stdio (local), Streamable HTTP and legacy HTTP/SSE (hosted) transports.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
   ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
-  Tool
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  Tool,
+  McpError,
+  ErrorCode,
+  isInitializeRequest
 } from '@modelcontextprotocol/sdk/types.js';
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance } from 'axios';
 import express from 'express';
 import dotenv from 'dotenv';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import { pipeline } from 'stream';
 import { fileURLToPath } from 'url';
 import * as types from './types.js';
 import { MIAW_TOOLS } from './tool-definitions.js';
+import { MIAWEventStream, entryIdOf } from './event-stream.js';
+import { circuitBreakerFor, installResilience } from './http-resilience.js';
+import { createSessionStore, SessionData } from './session-store.js';
+import {
+  ConfigError,
+  AuthError,
+  InvalidArgumentsError,
+  RoutingError,
+  SessionExpiredError,
+  SessionNotFoundError,
+  UpstreamError,
+  ValidationError,
+  toMiawError
+} from './errors.js';
+import { loadServerConfig, ServerConfig } from './config.js';
+import { runDoctor } from './doctor.js';
+import { loadIdentityConfig, resolveIdentityToken, RequestHeaders } from './identity.js';
+import { extractPrechatFields, prechatInputSchema, buildPrechatRoutingAttributes } from './prechat.js';
+import { closingEntries, entriesAfter, entriesOf, formatCursor, isResponseEntry, normalizeEntries, parseCursor, NormalizedEntry, EntryCursor } from './entries.js';
+import { loadClassifier } from './classifier.js';
+import { DEPLOYMENT_API_KEY_HEADER } from './deployments.js';
+import { BoundedEventStore } from './mcp-event-store.js';
+import { buildOpenApiDocument, toolRestPath } from './openapi.js';
+import { schemaProblems } from './schema-validation.js';
+import {
+  CONVERSATION_RESOURCE_TEMPLATES,
+  RESOURCE_MIME_TYPES,
+  parseConversationResourceUri
+} from './conversation-resources.js';
+import {
+  isTranscriptFormat,
+  renderTranscript,
+  renderTranscriptMarkdown,
+  RenderedTranscript,
+  TranscriptFormat,
+  TRANSCRIPT_FORMATS
+} from './transcript.js';
+import { LongPoll, WaitStopReason, loadWaitStrategy, pendingReplies } from './wait-strategy.js';
+import {
+  canSignDownloadLinks,
+  loadAttachmentPolicy,
+  prepareUpload,
+  signDownloadToken,
+  verifyDownloadToken
+} from './attachments.js';
 
 // Load environment variables
 dotenv.config();
@@ -95,6 +148,9 @@ function widgetDescriptorMeta(widget: typeof salesforceChatWidget) {
   };
 }
 
+// Sent to clients in the initialize result (every transport)
+const MCP_INSTRUCTIONS = 'CRITICAL RULES: 1) Reply VERBATIM with Chatbot messages - no commentary. 2) ONLY call show_salesforce_chat when _roleInfo.isLiveAgent=true AND mostRecentSenderRole="Agent". NEVER call it for Chatbot messages. The chat widget is ONLY for human agents, not AI chatbots.';
+
 function widgetInvocationMeta(widget: typeof salesforceChatWidget) {
   return {
     'openai/toolInvocation/invoking': widget.invoking,
@@ -102,6 +158,12 @@ function widgetInvocationMeta(widget: typeof salesforceChatWidget) {
   };
 }
 
+/**
+ * Receipts remembered per conversation; older ones drop out first (they are
+ * behind the read cursor, so polling no longer returns them)
+ */
+const ACKNOWLEDGED_ENTRIES_PER_CONVERSATION = 1000;
+
 /**
  * MIAW API Client
  */
@@ -109,6 +171,14 @@ class MIAWClient {
   private axiosInstance: AxiosInstance;
   private config: types.MIAWConfig;
   private accessToken: string | null = null;
+  // One SSE subscription per access token (a refreshed token gets a new subscription)
+  private eventStreams = new Map<string, MIAWEventStream>();
+  // Subscriptions still connecting, so concurrent calls share one instead of opening several
+  private pendingEventStreams = new Map<string, Promise<MIAWEventStream | null>>();
+  // Tokens whose subscription failed recently, so we fall back to polling without retrying every call
+  private eventStreamFailures = new Map<string, number>();
+  // "<status>:<entryId>" pairs already acknowledged per conversation, so polling doesn't resend receipts
+  private acknowledgedEntries = new Map<string, Set<string>>();
 
   constructor(config: types.MIAWConfig) {
     this.config = {
@@ -117,13 +187,28 @@ class MIAWClient {
       ...config
     };
 
+    // Timeouts are per endpoint; retries and the circuit breaker are shared by the deployment's clients
     this.axiosInstance = axios.create({
-      baseURL: `https://${this.config.scrtUrl}/iamessage/api/v2`,
+      baseURL: `${this.scrtOrigin}/iamessage/api/v2`,
       headers: {
         'Content-Type': 'application/json'
-      },
-      timeout: 30000
+      }
     });
+    installResilience(this.axiosInstance, circuitBreakerFor(`${this.config.orgId}/${this.config.esDeveloperName}`));
+  }
+
+  /**
+   * https://{scrtUrl}, or http:// for a local stand-in
+   */
+  private get scrtOrigin(): string {
+    return `${this.config.scrtProtocol || 'https'}://${this.config.scrtUrl}`;
+  }
+
+  /**
+   * Access token currently used for authenticated requests
+   */
+  getAccessToken(): string | null {
+    return this.accessToken;
   }
 
   /**
@@ -184,25 +269,26 @@ class MIAWClient {
   }
 
   /**
-   * Generate access token for authenticated user
+   * Generate access token for authenticated (verified) user from a customer-identity JWT
    */
   async generateAuthenticatedAccessToken(
-    jwt: string,
-    subject: string,
-    deviceId: string,
-    context?: { appName?: string; clientVersion?: string }
+    customerIdentityToken: string,
+    deviceId?: string
   ): Promise<types.AccessTokenResponse> {
     const request: types.AuthenticatedTokenRequest = {
       orgId: this.config.orgId,
       esDeveloperName: this.config.esDeveloperName,
       capabilitiesVersion: this.config.capabilitiesVersion!,
       platform: this.config.platform!,
-      deviceId,
-      jwt,
-      subject,
-      context
+      authorizationType: 'JWT',
+      customerIdentityToken
     };
 
+    // Same rule as guest tokens: Web platform rejects deviceId
+    if (this.config.platform !== 'Web' && deviceId) {
+      request.deviceId = deviceId;
+    }
+
     const response = await this.axiosInstance.post<types.AccessTokenResponse>(
       '/authorization/authenticated/access-token',
       request
@@ -216,6 +302,21 @@ class MIAWClient {
     return response.data;
   }
 
+  /**
+   * Fetch the Embedded Service deployment configuration (no access token needed).
+   * The same configuration is returned in AccessTokenResponse.context.configuration.
+   */
+  async getDeploymentConfiguration(language: string = 'en_US'): Promise<types.EmbeddedServiceConfiguration> {
+    const response = await this.axiosInstance.get<types.EmbeddedServiceConfiguration>(
+      `${this.scrtOrigin}/embeddedservice/v1/embedded-service-config`,
+      {
+        params: { orgId: this.config.orgId, esConfigName: this.config.esDeveloperName, language },
+        timeout: 5000
+      }
+    );
+    return response.data;
+  }
+
   /**
    * Generate continuation token for maintaining session
    */
@@ -226,10 +327,81 @@ class MIAWClient {
     return response.data;
   }
 
+  /**
+   * Get (or open) the SSE subscription for the current access token.
+   * Returns null if the event router is unreachable so callers can fall back to polling.
+   */
+  async getEventStream(): Promise<MIAWEventStream | null> {
+    const token = this.accessToken;
+    if (!token) {
+      return null;
+    }
+
+    const existing = this.eventStreams.get(token);
+    if (existing) {
+      return existing.isConnected() ? existing : null;
+    }
+
+    const pending = this.pendingEventStreams.get(token);
+    if (pending) {
+      return pending;
+    }
+
+    const failedAt = this.eventStreamFailures.get(token);
+    if (failedAt && Date.now() - failedAt < 60000) {
+      return null;
+    }
+
+    const opening = this.openEventStream(token);
+    this.pendingEventStreams.set(token, opening);
+    return opening;
+  }
+
+  private async openEventStream(token: string): Promise<MIAWEventStream | null> {
+    const stream = new MIAWEventStream({
+      url: this.config.eventRouterUrl || `${this.scrtOrigin}/eventrouter/v1/sse`,
+      orgId: this.config.orgId,
+      accessToken: token
+    });
+
+    try {
+      await stream.connect();
+    } catch (error: any) {
+      console.error('Event stream unavailable, falling back to polling:', error.response?.status || error.message);
+      stream.close();
+      this.pendingEventStreams.delete(token);
+      this.eventStreamFailures.set(token, Date.now());
+      return null;
+    }
+
+    // closeEventStream ran while connecting (token refreshed or session released): nobody owns it
+    if (!this.pendingEventStreams.delete(token)) {
+      stream.close();
+      return null;
+    }
+    this.eventStreams.set(token, stream);
+    this.eventStreamFailures.delete(token);
+    return stream;
+  }
+
+  /**
+   * Close the SSE subscription for the given (or current) access token
+   */
+  closeEventStream(token: string | null = this.accessToken) {
+    if (!token) {
+      return;
+    }
+    this.eventStreams.get(token)?.close();
+    this.eventStreams.delete(token);
+    this.pendingEventStreams.delete(token);
+    this.eventStreamFailures.delete(token);
+  }
+
   /**
    * Revoke the current access token
    */
   async revokeToken(): Promise<void> {
+    this.closeEventStream();
     await this.axiosInstance.delete('/authorization/token');
     this.accessToken = null;
     delete this.axiosInstance.defaults.headers.common['Authorization'];
@@ -247,7 +419,8 @@ class MIAWClient {
     
     // Format request according to MIAW API spec
     // IMPORTANT: Only send conversationId, esDeveloperName, and routingAttributes
-    // Other fields like capabilities, prechatDetails cause 400 errors
+    // Other fields like capabilities, prechatDetails cause 400 errors - pre-chat values
+    // are mapped into routingAttributes by the caller (see prechat.ts)
     const formattedRequest: any = {
       conversationId: convId,
       esDeveloperName: this.config.esDeveloperName
@@ -279,14 +452,19 @@ class MIAWClient {
 
   /**
    * Send a typing indicator
+   * Per Salesforce MIAW API: POST /conversation/{conversationId}/entry with a
+   * TypingStartedIndicator or TypingStoppedIndicator entry
    */
   async sendTypingIndicator(
     conversationId: string,
     isTyping: boolean
   ): Promise<void> {
     await this.axiosInstance.post(
-      `/conversations/${conversationId}/typing`,
-      { isTyping }
+      `/conversation/${conversationId}/entry`,
+      {
+        entryType: isTyping ? 'TypingStartedIndicator' : 'TypingStoppedIndicator',
+        id: generateUUID()
+      }
     );
   }
 
@@ -322,30 +500,156 @@ class MIAWClient {
     return response.data;
   }
 
+  /**
+   * Answer a ChoicesMessage (buttons, quick replies, carousel) with the selected option
+   */
+  async sendChoiceResponse(
+    conversationId: string,
+    request: types.SendChoiceResponseRequest
+  ): Promise<types.SendMessageResponse> {
+    const messageId = generateUUID();
+    const formattedRequest = {
+      message: {
+        id: messageId,
+        messageType: 'ChoicesResponseMessage',
+        inReplyToMessageId: request.inReplyToMessageId,
+        choicesResponse: {
+          formatType: 'Selections',
+          selectedOptions: [{
+            optionIdentifier: request.optionId,
+            ...(request.title ? { title: request.title } : {})
+          }]
+        }
+      },
+      esDeveloperName: this.config.esDeveloperName
+    };
+
+    console.error('Sending choice response', request.optionId, 'to conversation:', conversationId);
+
+    const response = await this.axiosInstance.post<types.SendMessageResponse>(
+      `/conversation/${conversationId}/message`,
+      formattedRequest
+    );
+    return { ...response.data, id: response.data?.id || messageId };
+  }
+
   /**
    * Send delivery acknowledgements or read receipts
+   * Per Salesforce MIAW API: POST /conversation/{conversationId}/acknowledge-entries
    */
   async sendDeliveryAcknowledgements(
     conversationId: string,
     request: types.SendDeliveryAcknowledgementRequest
   ): Promise<void> {
     await this.axiosInstance.post(
-      `/conversations/${conversationId}/acknowledgements`,
-      request
+      `/conversation/${conversationId}/acknowledge-entries`,
+      {
+        acknowledgements: request.acknowledgements.map((a) => ({
+          type: a.deliveryStatus === 'Read' ? 'Read' : 'Delivery',
+          conversationEntryIdentifier: a.entryId,
+          ...(a.clientTimestamp ? { clientTimestamp: a.clientTimestamp } : {})
+        }))
+      }
     );
   }
 
+  /**
+   * Acknowledge each entry at most once per status. Receipts are best effort:
+   * failures are logged and the entries are retried on the next call.
+   * Returns the number of entries acknowledged.
+   */
+  async acknowledgeEntries(
+    conversationId: string,
+    entryIds: string[],
+    deliveryStatus: 'Delivered' | 'Read'
+  ): Promise<number> {
+    let acknowledged = this.acknowledgedEntries.get(conversationId);
+    if (!acknowledged) {
+      acknowledged = new Set<string>();
+      this.acknowledgedEntries.set(conversationId, acknowledged);
+    }
+    const pending = [...new Set(entryIds)].filter((id) => id && !acknowledged.has(`${deliveryStatus}:${id}`));
+    if (pending.length === 0) {
+      return 0;
+    }
+    const keys = pending.map((id) => `${deliveryStatus}:${id}`);
+    // Read implies Delivered
+    if (deliveryStatus === 'Read') {
+      keys.push(...pending.map((id) => `Delivered:${id}`).filter((key) => !acknowledged.has(key)));
+    }
+    keys.forEach((key) => acknowledged.add(key));
+    // Sets iterate in insertion order, so this drops the oldest receipts
+    for (const key of acknowledged) {
+      if (acknowledged.size <= ACKNOWLEDGED_ENTRIES_PER_CONVERSATION) break;
+      acknowledged.delete(key);
+    }
+
+    try {
+      await this.sendDeliveryAcknowledgements(conversationId, {
+        acknowledgements: pending.map((entryId) => ({ entryId, deliveryStatus, clientTimestamp: Date.now() }))
+      });
+      return pending.length;
+    } catch (error: any) {
+      keys.forEach((key) => acknowledged.delete(key));
+      console.error(`Failed to send ${deliveryStatus} acknowledgements:`, error.response?.status || error.message);
+      return 0;
+    }
+  }
+
   /**
    * Send a file in a conversation
+   * Per Salesforce MIAW API: POST /conversation/{conversationId}/file as multipart/form-data
+   * with a JSON "messageEntry" part and the binary "fileData" part
    */
   async sendFile(
     conversationId: string,
     request: types.SendFileRequest
   ): Promise<types.SendMessageResponse> {
+    const messageId = generateUUID();
+    const messageEntry = {
+      esDeveloperName: this.config.esDeveloperName,
+      message: {
+        id: messageId,
+        fileId: generateUUID(),
+        text: request.text,
+        inReplyToMessageId: request.inReplyToMessageId
+      }
+    };
+
+    const form = new FormData();
+    form.append('messageEntry', JSON.stringify(messageEntry));
+    form.append('fileData', new Blob([request.file.data], { type: request.file.mimeType }), request.file.fileName);
+
+    console.error('Sending file', request.file.fileName, `(${request.file.data.length} bytes) to conversation:`, conversationId);
+
     const response = await this.axiosInstance.post<types.SendMessageResponse>(
-      `/conversations/${conversationId}/files`,
-      request
+      `/conversation/${conversationId}/file`,
+      form,
+      {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        // Uploads take longer than JSON calls
+        timeout: 120000,
+        maxBodyLength: Infinity
+      }
     );
+    return { ...response.data, id: response.data?.id || messageId };
+  }
+
+  /**
+   * Stream an attachment from Salesforce using this client's access token.
+   * Only URLs on the deployment's SCRT host get the token.
+   */
+  async downloadAttachment(url: string): Promise<NodeJS.ReadableStream> {
+    let target: URL;
+    try {
+      target = new URL(url, this.scrtOrigin);
+    } catch {
+      throw new ValidationError('Attachment URL is not valid', 'ATTACHMENT_URL_REJECTED');
+    }
+    if (target.origin !== new URL(this.scrtOrigin).origin) {
+      throw new ValidationError(`Attachment URL is not on ${this.config.scrtUrl}`, 'ATTACHMENT_URL_REJECTED');
+    }
+    const response = await this.axiosInstance.get(target.href, { responseType: 'stream', timeout: 60000 });
     return response.data;
   }
 
@@ -360,6 +664,7 @@ class MIAWClient {
     console.error(`DELETE URL: ${this.axiosInstance.defaults.baseURL}${url}`);
     try {
       await this.axiosInstance.delete(url);
+      this.acknowledgedEntries.delete(conversationId);
       console.error('Conversation closed successfully');
     } catch (error: any) {
       console.error('Error closing conversation:', error.response?.status, error.response?.data || error.message);
@@ -402,46 +707,41 @@ class MIAWClient {
    * Per Salesforce MIAW API docs:
    * 1. endMessagingSession: DELETE /conversation/{conversationId}/session?esDeveloperName={name}
    * 2. closeConversation: DELETE /conversation/{conversationId}?esDeveloperName={name}
+   * Both are DELETEs, so the HTTP layer retries them. The conversation counts as closed
+   * once step 2 succeeds (or Salesforce says it already is); otherwise the error is thrown.
    */
   async closeConversationAndSession(conversationId: string): Promise<void> {
-    console.error(`Closing conversation and session for: ${conversationId}`);
-    console.error(`Using esDeveloperName: ${this.config.esDeveloperName}`);
-    
+    console.error(`Closing conversation and session for: ${conversationId} (${this.config.esDeveloperName})`);
+    const alreadyClosed = (error: any) => error.response?.status === 404 || error.response?.status === 409;
+
     // Step 1: End the messaging session first
     // Per docs: "Ends a messaging session within a conversation between an end user and a rep"
     try {
-      console.error('Step 1: DELETE /conversation/{id}/session (endMessagingSession)...');
       await this.endMessagingSession(conversationId);
-      console.error('endMessagingSession succeeded!');
     } catch (error: any) {
-      console.error('endMessagingSession failed:', error.response?.status, error.response?.data || error.message);
+      // Closing the conversation ends its session too, so this alone is not a failure
+      console.error('endMessagingSession failed:', error.response?.status || error.message);
     }
-    
+
     // Step 2: Close the conversation
     // Per docs: "After a conversation is closed, end users and reps can no longer send messages"
     try {
-      console.error('Step 2: DELETE /conversation/{id} (closeConversation)...');
       await this.closeConversation(conversationId);
-      console.error('closeConversation succeeded!');
     } catch (error: any) {
-      console.error('closeConversation failed:', error.response?.status, error.response?.data || error.message);
-    }
-    
-    // Step 3: Also send a message so the agent knows (fallback)
-    try {
-      console.error('Step 3: Send notification message...');
+      if (alreadyClosed(error)) {
+        return;
+      }
+      // Let the agent know the user left even though the close failed, then report the failure
       await this.sendMessage(conversationId, {
         message: {
           messageType: 'StaticContentMessage',
           text: '[User has ended the chat]'
         }
+      }).catch((notifyError: any) => {
+        console.error('Notification message failed:', notifyError.response?.status || notifyError.message);
       });
-      console.error('Notification message sent!');
-    } catch (error: any) {
-      console.error('Notification message failed (conversation may already be closed):', error.response?.status);
+      throw error;
     }
-    
-    console.error('Close operations completed');
   }
 
   /**
@@ -466,19 +766,27 @@ class MIAWClient {
       `/conversation/${conversationId}/entries`,
       { params }
     );
-    return response.data;
+    return { ...response.data, conversationEntries: entriesOf(response.data) };
   }
 
   /**
-   * Retrieve full conversation transcript
+   * Page through the whole conversation history via continuationToken
    */
-  async getConversationTranscript(
-    conversationId: string
-  ): Promise<types.ConversationTranscript> {
-    const response = await this.axiosInstance.get<types.ConversationTranscript>(
-      `/conversations/${conversationId}/transcript`
-    );
-    return response.data;
+  async listAllConversationEntries(
+    conversationId: string,
+    maxPages: number = 50
+  ): Promise<types.ConversationEntry[]> {
+    const entries: types.ConversationEntry[] = [];
+    let continuationToken: string | undefined;
+    for (let page = 0; page < maxPages; page++) {
+      const response = await this.listConversationEntries(conversationId, continuationToken);
+      entries.push(...response.conversationEntries);
+      if (!response.continuationToken || response.continuationToken === continuationToken) {
+        break;
+      }
+      continuationToken = response.continuationToken;
+    }
+    return entries;
   }
 
   /**
@@ -498,17 +806,204 @@ class MIAWClient {
   }
 }
 
+// Run as the entry point (also through the npm bin symlink) rather than imported by the tests
+const isMainModule = !!process.argv[1] && fs.existsSync(process.argv[1]) && fs.realpathSync(process.argv[1]) === __filename;
+
+// `miaw-mcp-server doctor`: check the configuration against Salesforce and exit
+if (isMainModule && process.argv[2] === 'doctor') {
+  process.exit(await runDoctor((deployment) => new MIAWClient(deployment)));
+}
+
+// Validated at startup so a bad value stops the server here, not on the first tool call
+let config: ServerConfig;
+try {
+  config = loadServerConfig();
+} catch (error) {
+  if (isMainModule && error instanceof ConfigError) {
+    console.error(`${error.message}\nRun "miaw-mcp-server doctor" for details.`);
+    process.exit(1);
+  }
+  throw error;
+}
+
 /**
  * Session storage for managing access tokens server-side
  * This prevents exposing JWTs to ChatGPT (which triggers moderation)
+ * Backend (memory/file/redis) is selected by MIAW_SESSION_STORE
+ */
+const sessions = createSessionStore();
+
+// Tags entries as bot/agent/user/system/closure (MIAW_CLASSIFIER_RULES overrides the defaults)
+const classifier = loadClassifier();
+
+// How list_conversation_entries waits for a whole bot turn (MIAW_POLL_* tunables;
+// a deployment's "poll" settings override them)
+const waitStrategy = loadWaitStrategy();
+
+// Embedded Service deployments (MIAW_DEPLOYMENTS_FILE, or the single one from MIAW_* env vars)
+const deployments = config.deployments;
+
+// REST routes from before /api/{tool} was generated; the widget and existing Custom GPT Actions call them
+const LEGACY_REST_ROUTES: Record<string, string> = {
+  'generate-session': 'generate_guest_access_token',
+  'generate-verified-session': 'generate_authenticated_access_token',
+  'create-conversation': 'create_conversation',
+  'resume-conversation': 'resume_conversation',
+  'send-message': 'send_message',
+  'send-file': 'send_file',
+  'send-choice-response': 'send_choice_response',
+  'send-typing-indicator': 'send_typing_indicator',
+  'send-delivery-acknowledgements': 'send_delivery_acknowledgements',
+  'list-conversation-entries': 'list_conversation_entries',
+  'get-conversation-status': 'get_conversation_routing_status',
+  'close-conversation': 'close_conversation'
+};
+
+/**
+ * Session lifetime settings (MIAW_SESSION_* variables, configured in seconds)
+ */
+const SESSION_IDLE_TTL_MS = config.sessionIdleTtlMs;
+const SESSION_CLOSED_TTL_MS = config.sessionClosedTtlMs;
+const SESSION_REAPER_INTERVAL_MS = config.sessionReaperIntervalMs;
+// Reaped sessions are kept as tombstones so callers get SESSION_EXPIRED instead of "Invalid sessionId"
+const SESSION_TOMBSTONE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Why a session is no longer usable, or null if it is still live
  */
-const sessions = new Map<string, { accessToken: string; conversationId?: string }>();
+function sessionExpiryReason(session: SessionData, now: number = Date.now()): string | null {
+  if (session.expiredAt) {
+    return session.expiredReason || 'expired';
+  }
+  if (session.tokenExpiresAt && now >= session.tokenExpiresAt) {
+    return 'access token expired';
+  }
+  if (session.closedAt && now - session.closedAt >= SESSION_CLOSED_TTL_MS) {
+    return 'conversation closed';
+  }
+  if (session.lastActivityAt && now - session.lastActivityAt >= SESSION_IDLE_TTL_MS) {
+    return 'idle timeout';
+  }
+  return null;
+}
 
 /**
- * Track recently sent messages to prevent duplicates
- * Key: conversationId:messageText, Value: timestamp
+ * Refuse a conversation the session did not open (a session knows its conversation once it has one)
  */
-const recentMessages = new Map<string, number>();
+function assertConversationOwner(session: SessionData | null | undefined, conversationId: string): void {
+  if (session?.conversationId && session.conversationId !== conversationId) {
+    throw new RoutingError(`Conversation ${conversationId} does not belong to this session`, 'CONVERSATION_MISMATCH', 403);
+  }
+}
+
+// Refresh the access token this long before it expires
+const TOKEN_REFRESH_WINDOW_MS = config.tokenRefreshWindowMs;
+
+// Re-fetch a deployment's configuration this often, so admin changes to the form are picked up
+const DEPLOYMENT_CONFIG_TTL_MS = 10 * 60 * 1000;
+
+// After a failed configuration fetch, wait this long before the next attempt
+const DEPLOYMENT_CONFIG_RETRY_MS = 30 * 1000;
+
+// How often a conversation resource subscription re-checks its session and event stream
+// (and, without an event stream, polls for new entries)
+const RESOURCE_WATCH_INTERVAL_MS = 3000;
+
+// Treat an agent typing indicator as stale after this long (a missed "stopped" event must not stick)
+const TYPING_STALE_MS = 10000;
+
+/**
+ * Look up a live session and slide its idle TTL forward
+ */
+async function lookupSession(sessionId: string): Promise<SessionData> {
+  const session = await sessions.get(sessionId);
+  if (!session) {
+    throw new SessionNotFoundError();
+  }
+  const reason = sessionExpiryReason(session);
+  if (reason) {
+    throw new SessionExpiredError(sessionId, reason);
+  }
+  session.lastActivityAt = Date.now();
+  await sessions.set(sessionId, session);
+  return session;
+}
+
+/**
+ * MCP tool result for a failed call: the error body, flagged isError so the
+ * model sees the call failed rather than reading it as output
+ */
+function toolErrorResult(error: unknown) {
+  const miawError = toMiawError(error);
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ error: true, ...miawError.toJSON() }, null, 2) }],
+    isError: true
+  };
+}
+
+/**
+ * REST response for a failed call: the error's HTTP status, Retry-After when
+ * there is a hint, and { error: message, code, category, retryable, ... }
+ */
+function sendRestError(res: express.Response, error: unknown, where?: string) {
+  const miawError = toMiawError(error);
+  if (where) {
+    console.error(`Error in ${where}:`, miawError.code, miawError.message);
+  }
+  if (miawError.retryAfterSeconds !== undefined) {
+    res.setHeader('Retry-After', String(Math.ceil(miawError.retryAfterSeconds)));
+  }
+  res.status(miawError.httpStatus).json({ error: miawError.message, ...miawError.toJSON() });
+}
+
+/**
+ * Stored read cursor of callers that do not pass a cursorId (and the one resume_conversation replays from)
+ */
+const DEFAULT_CURSOR_ID = 'default';
+
+/**
+ * Read cursors kept per session; the least recently advanced one is dropped first
+ */
+const MAX_READ_CURSORS_PER_SESSION = 8;
+
+function withReadCursor(
+  cursors: SessionData['readCursors'],
+  cursorId: string,
+  cursor: { entryId: string; timestamp: number }
+): NonNullable<SessionData['readCursors']> {
+  // Object keys keep insertion order, so the advanced cursor goes last
+  const others = Object.entries(cursors || {}).filter(([id]) => id !== cursorId);
+  return Object.fromEntries([...others.slice(-(MAX_READ_CURSORS_PER_SESSION - 1)), [cursorId, cursor]]);
+}
+
+/**
+ * How long an identical message to the same conversation counts as a duplicate
+ */
+const DUPLICATE_MESSAGE_WINDOW_MS = 10000;
+
+/**
+ * Session-store marker for a message recently sent to a conversation
+ */
+function recentMessageKey(conversationId: string, text: string): string {
+  return `message:${conversationId}:${crypto.createHash('sha256').update(text || '').digest('hex')}`;
+}
+
+/**
+ * A fresh secret for resuming by userKey; only its hash is stored with the session
+ */
+function issueResumeToken(): { resumeToken: string; resumeTokenHash: string } {
+  const resumeToken = crypto.randomBytes(32).toString('base64url');
+  return { resumeToken, resumeTokenHash: crypto.createHash('sha256').update(resumeToken).digest('hex') };
+}
+
+/**
+ * Whether a presented resume token is the one issued with the session
+ */
+function resumeTokenMatches(session: SessionData, resumeToken: unknown): boolean {
+  if (typeof resumeToken !== 'string' || !session.resumeTokenHash) return false;
+  const presented = crypto.createHash('sha256').update(resumeToken).digest();
+  return crypto.timingSafeEqual(presented, Buffer.from(session.resumeTokenHash, 'hex'));
+}
 
 /**
  * Generate a simple session ID
@@ -528,62 +1023,508 @@ function generateUUID(): string {
   });
 }
 
+/**
+ * Per-call context from the transport (HTTP headers are absent on stdio)
+ */
+export interface ToolCallContext {
+  headers?: RequestHeaders;
+  /** Deployment selected by the MCP endpoint path (/deployments/{name}/mcp) */
+  deployment?: string;
+}
+
 /**
  * MCP Server Implementation
  */
-class MIAWMCPServer {
+export class MIAWMCPServer {
   private server: Server;
-  private client: MIAWClient | null = null;
+  // One MIAW client per session, so concurrent calls never share a bearer token
+  private sessionClients = new Map<string, MIAWClient>();
+  // In-flight token refreshes, so concurrent calls on one session share a single continuation token
+  private pendingRefreshes = new Map<string, Promise<SessionData>>();
+  private identityConfig = loadIdentityConfig();
+  // Deployment configuration (pre-chat form etc.) per deployment, captured from access-token responses
+  private deploymentConfigs = new Map<string, { config: types.EmbeddedServiceConfiguration | null; fetchedAt: number; failedAt?: number }>();
+  // In-flight configuration fetches, so concurrent tools/list calls share one request
+  private pendingDeploymentConfigs = new Map<string, Promise<types.EmbeddedServiceConfiguration | null>>();
+  private attachmentPolicy = loadAttachmentPolicy();
+  private reaperTimer?: NodeJS.Timeout;
+  // Streamable HTTP sessions by Mcp-Session-Id; the reaper closes the ones idle past SESSION_IDLE_TTL_MS
+  private streamableSessions = new Map<string, { transport: StreamableHTTPServerTransport; lastUsedAt: number; openRequests: number }>();
 
   constructor() {
-    this.server = new Server(
-      {
-        name: 'miaw-mcp-server',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          resources: {},
-          tools: {},
-        },
+    // stdio uses this instance; each HTTP/SSE connection gets its own from createServerInstance
+    this.server = this.createServerInstance();
+  }
+
+  /**
+   * Build a MIAW client for a deployment (the default one if no name is given)
+   */
+  private createClient(deploymentName?: string): MIAWClient {
+    return new MIAWClient(deployments.get(deploymentName));
+  }
+
+  /**
+   * Deployment for a new session: explicit argument > MCP endpoint path > API key header > default
+   */
+  private resolveDeployment(args: any, context: ToolCallContext): string {
+    const apiKeyHeader = context.headers?.[DEPLOYMENT_API_KEY_HEADER];
+    const byApiKey = deployments.byApiKey(Array.isArray(apiKeyHeader) ? apiKeyHeader[0] : apiKeyHeader);
+    const name = args?.deployment || context.deployment || byApiKey?.name || deployments.defaultName;
+    // Fail fast on an unknown or incomplete deployment
+    return deployments.get(name).name;
+  }
+
+  /**
+   * Get the MIAW client bound to a session's current access token.
+   * Without a sessionId the caller gets a fresh, unauthenticated client.
+   */
+  private async clientForSession(sessionId: string | undefined): Promise<MIAWClient> {
+    if (!sessionId) {
+      return this.createClient();
+    }
+
+    return this.clientForSessionData(sessionId, await this.loadSession(sessionId));
+  }
+
+  /**
+   * The session's client, synced to the access token in its stored record
+   */
+  private clientForSessionData(sessionId: string, session: SessionData): MIAWClient {
+    let client = this.sessionClients.get(sessionId);
+    if (!client) {
+      client = this.createClient(session.deployment);
+      this.sessionClients.set(sessionId, client);
+    }
+    if (client.getAccessToken() !== session.accessToken) {
+      // Token was refreshed (possibly on another dyno) - the old event stream is tied to the old token
+      client.closeEventStream();
+      client.setAccessToken(session.accessToken);
+    }
+    return client;
+  }
+
+  /**
+   * Drop a session's client and its event stream
+   */
+  private releaseClient(sessionId: string) {
+    this.sessionClients.get(sessionId)?.closeEventStream();
+    this.sessionClients.delete(sessionId);
+  }
+
+  /**
+   * Load a live session, refreshing its access token first if it is about to expire
+   */
+  private async loadSession(sessionId: string): Promise<SessionData> {
+    const session = await lookupSession(sessionId);
+    if (session.tokenExpiresAt && session.tokenExpiresAt - Date.now() < TOKEN_REFRESH_WINDOW_MS) {
+      return this.refreshSession(sessionId, session);
+    }
+    return session;
+  }
+
+  /**
+   * Swap the session's access token for a fresh one from the continuation-token endpoint.
+   * The sessionId stays the same, so the LLM and widget never notice.
+   */
+  private refreshSession(sessionId: string, session: SessionData): Promise<SessionData> {
+    let pending = this.pendingRefreshes.get(sessionId);
+    if (!pending) {
+      pending = this.exchangeContinuationToken(sessionId, session)
+        .finally(() => this.pendingRefreshes.delete(sessionId));
+      this.pendingRefreshes.set(sessionId, pending);
+    }
+    return pending;
+  }
+
+  private async exchangeContinuationToken(sessionId: string, session: SessionData): Promise<SessionData> {
+    console.error(`Refreshing access token for session ${sessionId}`);
+    // Use a dedicated client so in-flight calls on the session's client keep their token
+    const refresher = this.createClient(session.deployment);
+    refresher.setAccessToken(session.accessToken);
+
+    let response: types.ContinuationTokenResponse;
+    try {
+      response = await refresher.generateContinuationToken();
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status === 401 || status === 403) {
+        // The token is already dead - nothing to refresh, tombstone the session
+        await sessions.set(sessionId, {
+          accessToken: '',
+          conversationId: session.conversationId,
+          userKey: session.userKey,
+          expiredAt: Date.now(),
+          expiredReason: 'access token could not be refreshed'
+        });
+        this.releaseClient(sessionId);
+        throw new SessionExpiredError(sessionId, 'access token could not be refreshed');
       }
-    );
+      throw error;
+    }
 
-    this.setupHandlers();
+    const accessToken = response.accessToken || response.continuationToken;
+    if (!accessToken) {
+      throw new UpstreamError('Continuation token response did not include an access token', { code: 'UPSTREAM_INVALID_RESPONSE', httpStatus: 502 });
+    }
+
+    const refreshed: SessionData = {
+      ...session,
+      accessToken,
+      tokenExpiresAt: response.expiresIn ? Date.now() + response.expiresIn * 1000 : undefined,
+      lastActivityAt: Date.now()
+    };
+    await sessions.set(sessionId, refreshed);
+    console.error(`Access token refreshed for session ${sessionId}`);
+    return refreshed;
   }
 
   /**
-   * Initialize the MIAW client with configuration
+   * The live session last used under a user key, provided the caller holds its resume token
    */
-  private initializeClient() {
-    if (!this.client) {
-      const scrtUrl = process.env.MIAW_SCRT_URL;
-      const orgId = process.env.MIAW_ORG_ID;
-      const esDeveloperName = process.env.MIAW_ES_DEVELOPER_NAME;
-
-      if (!scrtUrl || !orgId || !esDeveloperName) {
-        throw new Error(
-          'Missing required environment variables: MIAW_SCRT_URL, MIAW_ORG_ID, MIAW_ES_DEVELOPER_NAME'
-        );
+  private async findSessionByUserKey(userKey: string, resumeToken: unknown): Promise<{ sessionId: string; session: SessionData } | null> {
+    const sessionId = await sessions.findByUserKey(userKey);
+    const session = sessionId ? await sessions.get(sessionId) : undefined;
+    if (!sessionId || !session || sessionExpiryReason(session)) return null;
+    if (session.userKey !== userKey || !resumeTokenMatches(session, resumeToken)) return null;
+    return { sessionId, session };
+  }
+
+  /**
+   * Refuse a userKey that another live session holds, unless it is the session being resumed or
+   * a session of the same verified customer; otherwise anyone could point the key at their own
+   * session and the owner's resume_conversation would stop finding theirs
+   */
+  private async assertUserKeyAvailable(userKey: string, subject: string | undefined, resumingSessionId?: string): Promise<void> {
+    const holderId = await sessions.findByUserKey(userKey);
+    if (!holderId || holderId === resumingSessionId) return;
+    const holder = await sessions.get(holderId);
+    if (!holder || holder.userKey !== userKey || sessionExpiryReason(holder)) return;
+    if (subject && holder.subject === subject) return;
+    throw new AuthError('This userKey belongs to another live session. Resume that session with its resumeToken, or use a different userKey.', 'USER_KEY_IN_USE', 409);
+  }
+
+  /**
+   * Reattach to an open conversation from a prior session (or user key) under a fresh session,
+   * returning the entries the user has not seen yet.
+   */
+  private async resumeConversation(args: any, context: ToolCallContext) {
+    let previous: { sessionId: string; session: SessionData } | null = null;
+
+    if (args.sessionId) {
+      // lookupSession throws SESSION_EXPIRED for tombstones - a revoked token cannot be resumed
+      previous = { sessionId: args.sessionId, session: await lookupSession(args.sessionId) };
+    } else if (args.userKey) {
+      // A userKey is only a name; the resume token issued with the session proves it is the caller's
+      previous = await this.findSessionByUserKey(args.userKey, args.resumeToken);
+    }
+
+    // A resumed session stays in its deployment; otherwise pick one like a new session would
+    const deploymentName = previous ? previous.session.deployment : this.resolveDeployment(args, context);
+    const client = this.createClient(deploymentName);
+
+    let newSession: SessionData;
+    if (previous) {
+      // Continuation token = fresh access token for the same guest/verified identity
+      client.setAccessToken(previous.session.accessToken);
+      const continuation = await client.generateContinuationToken();
+      const accessToken = continuation.accessToken || continuation.continuationToken;
+      if (!accessToken) {
+        throw new UpstreamError('Continuation token response did not include an access token', { code: 'UPSTREAM_INVALID_RESPONSE', httpStatus: 502 });
+      }
+      client.setAccessToken(accessToken);
+      newSession = {
+        ...previous.session,
+        accessToken,
+        closedAt: undefined,
+        tokenExpiresAt: continuation.expiresIn ? Date.now() + continuation.expiresIn * 1000 : undefined,
+        lastActivityAt: Date.now()
+      };
+    } else if (this.identityConfig.identityHeader || this.identityConfig.subjectHeader) {
+      // Verified users can always get back in: their identity lists the same conversations
+      const identity = resolveIdentityToken(this.identityConfig, context.headers);
+      const tokenResponse = await client.generateAuthenticatedAccessToken(identity.jwt);
+      newSession = {
+        accessToken: tokenResponse.accessToken,
+        deployment: deploymentName,
+        subject: identity.subject,
+        userKey: args.userKey || identity.subject,
+        tokenExpiresAt: tokenResponse.expiresIn ? Date.now() + tokenResponse.expiresIn * 1000 : undefined,
+        lastActivityAt: Date.now()
+      };
+    } else {
+      throw new SessionNotFoundError('No resumable session found. Provide a prior sessionId, or a userKey with its resumeToken, or start a new session.');
+    }
+    if (newSession.userKey) {
+      await this.assertUserKeyAvailable(newSession.userKey, newSession.subject, previous?.sessionId);
+    }
+    // Rotate the resume token with every new session so an old one cannot be replayed
+    const resume = newSession.userKey ? issueResumeToken() : undefined;
+
+    // Pick the conversation: explicit > the one the prior session was in > most recent open one
+    const listed = await client.listConversations();
+    const openConversations = (listed.conversations || [])
+      .filter((c) => c.status !== 'Closed')
+      .sort((a, b) => (b.lastModifiedDate || 0) - (a.lastModifiedDate || 0));
+    const wanted = args.conversationId || previous?.session.conversationId;
+    const conversation = openConversations.find((c) => c.conversationId === wanted) || openConversations[0];
+    if (!conversation) {
+      throw new RoutingError('No open conversation to resume. Start a new conversation with create_conversation.', 'NO_OPEN_CONVERSATION', 404);
+    }
+    const resumedFromSameConversation = conversation.conversationId === previous?.session.conversationId;
+
+    const sessionId = generateSessionId();
+    await sessions.set(sessionId, {
+      ...newSession,
+      resumeTokenHash: resume?.resumeTokenHash,
+      conversationId: conversation.conversationId,
+      readCursors: resumedFromSameConversation ? newSession.readCursors : undefined
+    });
+    this.sessionClients.set(sessionId, client);
+
+    if (previous) {
+      // The old session now points at a superseded token; keep it as a tombstone (no revoke - same identity)
+      this.releaseClient(previous.sessionId);
+      await sessions.set(previous.sessionId, {
+        accessToken: '',
+        conversationId: previous.session.conversationId,
+        userKey: previous.session.userKey,
+        expiredAt: Date.now(),
+        expiredReason: `resumed in session ${sessionId}`
+      });
+    }
+
+    // Replay what the user missed since the last entry the model was given
+    const cursor = resumedFromSameConversation ? newSession.readCursors?.[DEFAULT_CURSOR_ID] || {} : {};
+    const entriesResult = await client.listConversationEntries(conversation.conversationId);
+    const missed = entriesAfter(normalizeEntries(entriesResult.conversationEntries, classifier), cursor)
+      .filter((e) => e.type === 'Message')
+      .filter((e) => isResponseEntry(e) || e.classification === 'user');
+
+    const lastAgent = [...missed].reverse().find((e) => e.classification === 'agent');
+
+    return {
+      sessionId,
+      conversationId: conversation.conversationId,
+      previousSessionId: previous?.sessionId,
+      resumeToken: resume?.resumeToken,
+      entries: this.withDownloadLinks(missed, sessionId),
+      _nextAction: lastAgent
+        ? `Resumed a live-agent chat. Call show_salesforce_chat with sessionId="${sessionId}", conversationId="${conversation.conversationId}", agentName="${lastAgent.senderName || 'Agent'}".`
+        : `Resumed. Use sessionId="${sessionId}" from now on and call list_conversation_entries with since="cursor" for new messages.`
+    };
+  }
+
+  /**
+   * Dispatch a tool call. If Salesforce rejects the session's token with 401,
+   * refresh it via the continuation-token endpoint and retry once.
+   */
+  async callTool(toolName: string, args: any, context: ToolCallContext = {}) {
+    // One dispatch layer for stdio, SSE, /mcp and /api/*: arguments must match the
+    // tool's static inputSchema before anything reaches Salesforce (deployment-specific
+    // pre-chat rules are checked by create_conversation itself)
+    const tool = MIAW_TOOLS.find((t) => t.name === toolName);
+    if (tool) {
+      const problems = schemaProblems(tool.inputSchema, args ?? {});
+      if (problems.length > 0) {
+        throw new InvalidArgumentsError(toolName, problems);
+      }
+    }
+
+    let result;
+    try {
+      result = await this.handleToolCall(toolName, args, context);
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 401 || !args?.sessionId) {
+        throw error;
+      }
+      const session = await sessions.get(args.sessionId);
+      if (!session || session.expiredAt) {
+        throw error;
+      }
+      console.error(`Salesforce returned 401 for session ${args.sessionId}, refreshing token and retrying once`);
+      await this.refreshSession(args.sessionId, session);
+      result = await this.handleToolCall(toolName, args, context);
+    }
+
+    if (tool?.outputSchema) {
+      this.checkToolResult(tool, result);
+    }
+    return result;
+  }
+
+  /**
+   * Log results that drift from the tool's outputSchema. The result is still
+   * returned - a schema mismatch is our bug, not the caller's.
+   */
+  private checkToolResult(tool: any, result: { content: Array<{ type: string; text: string }>; structuredContent?: any }) {
+    let value = result.structuredContent;
+    if (value === undefined) {
+      try {
+        value = JSON.parse(result.content[0]?.text);
+      } catch {
+        return;
+      }
+    }
+    const problems = schemaProblems(tool.outputSchema, value);
+    if (problems.length > 0) {
+      console.error(`Result of ${tool.name} does not match its outputSchema: ${problems.join('; ')}`);
+    }
+  }
+
+  /**
+   * Remember the deployment configuration returned with an access token
+   */
+  private rememberDeploymentConfig(deploymentName: string, tokenResponse: types.AccessTokenResponse) {
+    if (tokenResponse.context?.configuration) {
+      this.deploymentConfigs.set(deploymentName, { config: tokenResponse.context.configuration, fetchedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Make sure we have the deployment configuration, fetching it if no token has been minted yet
+   */
+  private async ensureDeploymentConfig(deploymentName: string = deployments.defaultName): Promise<types.EmbeddedServiceConfiguration | null> {
+    const cached = this.deploymentConfigs.get(deploymentName);
+    const now = Date.now();
+    if (cached && (now - cached.fetchedAt < DEPLOYMENT_CONFIG_TTL_MS || now - (cached.failedAt ?? 0) < DEPLOYMENT_CONFIG_RETRY_MS)) {
+      return cached.config;
+    }
+    let pending = this.pendingDeploymentConfigs.get(deploymentName);
+    if (!pending) {
+      pending = this.fetchDeploymentConfig(deploymentName, cached?.config ?? null)
+        .finally(() => this.pendingDeploymentConfigs.delete(deploymentName));
+      this.pendingDeploymentConfigs.set(deploymentName, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Fetch a deployment's configuration. Only a success counts as fresh; after a
+   * failure the previous configuration is kept and the fetch is retried shortly.
+   */
+  private async fetchDeploymentConfig(
+    deploymentName: string,
+    previous: types.EmbeddedServiceConfiguration | null
+  ): Promise<types.EmbeddedServiceConfiguration | null> {
+    try {
+      const deployment = deployments.get(deploymentName);
+      const fetched = await this.createClient(deploymentName)
+        .getDeploymentConfiguration(deployment.language || config.language);
+      this.deploymentConfigs.set(deploymentName, { config: fetched, fetchedAt: Date.now() });
+      return fetched;
+    } catch (error: any) {
+      console.error(`Could not fetch deployment configuration for ${deploymentName}:`, error.response?.status || error.message);
+      const fetchedAt = this.deploymentConfigs.get(deploymentName)?.fetchedAt ?? 0;
+      this.deploymentConfigs.set(deploymentName, { config: previous, fetchedAt, failedAt: Date.now() });
+      return previous;
+    }
+  }
+
+  /**
+   * Replace each attachment's Salesforce URL with a short-lived signed link to
+   * /api/attachment on this server (the Salesforce URL needs the session's token).
+   * Without a signing secret the attachments are listed without links.
+   */
+  private withDownloadLinks(entries: NormalizedEntry[], sessionId: string | undefined): NormalizedEntry[] {
+    const serverUrl = config.serverUrl;
+    return entries.map((entry) => {
+      if (!entry.attachments) {
+        return entry;
+      }
+      return {
+        ...entry,
+        attachments: sessionId && canSignDownloadLinks()
+          ? entry.attachments.map((a) => ({
+              name: a.name,
+              mimeType: a.mimeType,
+              downloadUrl: `${serverUrl}/api/attachment?token=${signDownloadToken({
+                sessionId,
+                url: a.url || '',
+                name: a.name,
+                mimeType: a.mimeType,
+                exp: Date.now() + this.attachmentPolicy.downloadTtlSeconds * 1000
+              })}`
+            }))
+          : entry.attachments.map((a) => ({ name: a.name, mimeType: a.mimeType }))
+      };
+    });
+  }
+
+  /**
+   * Periodically revoke and evict expired sessions
+   */
+  private startSessionReaper() {
+    this.reaperTimer = setInterval(() => {
+      this.reapStreamableSessions();
+      this.reapSessions().catch((error) => console.error('Session reaper failed:', error));
+    }, SESSION_REAPER_INTERVAL_MS);
+    // Never keep the process alive just for the reaper
+    this.reaperTimer.unref();
+  }
+
+  /**
+   * Close Streamable HTTP sessions with no open request (a notification stream
+   * counts) for longer than the session idle TTL
+   */
+  private reapStreamableSessions(now: number = Date.now()) {
+    for (const [sessionId, entry] of this.streamableSessions) {
+      if (entry.openRequests > 0 || now - entry.lastUsedAt < SESSION_IDLE_TTL_MS) continue;
+      console.error(`Streamable HTTP session ${sessionId}: idle, closing`);
+      // onclose removes the entry
+      entry.transport.close().catch((error) => console.error(`Streamable HTTP session ${sessionId}: close failed:`, error));
+    }
+  }
+
+  /**
+   * Revoke tokens of expired sessions and replace them with tombstones
+   */
+  private async reapSessions() {
+    const now = Date.now();
+
+    for (const sessionId of await sessions.keys()) {
+      const session = await sessions.get(sessionId);
+      if (!session) continue;
+
+      if (session.expiredAt) {
+        if (now - session.expiredAt >= SESSION_TOMBSTONE_TTL_MS) {
+          await sessions.delete(sessionId);
+        }
+        continue;
+      }
+
+      const reason = sessionExpiryReason(session, now);
+      if (!reason) continue;
+
+      console.error(`Reaping session ${sessionId} (${reason})`);
+      this.releaseClient(sessionId);
+
+      // An already-expired token cannot be revoked (Salesforce returns 401)
+      if (reason !== 'access token expired') {
+        try {
+          const revoker = this.createClient(session.deployment);
+          revoker.setAccessToken(session.accessToken);
+          await revoker.revokeToken();
+        } catch (error: any) {
+          console.error(`Failed to revoke token for session ${sessionId}:`, error.response?.status || error.message);
+        }
       }
 
-      this.client = new MIAWClient({
-        scrtUrl,
-        orgId,
-        esDeveloperName,
-        capabilitiesVersion: process.env.MIAW_CAPABILITIES_VERSION || '1',
-        platform: process.env.MIAW_PLATFORM || 'Web'
+      await sessions.set(sessionId, {
+        accessToken: '',
+        conversationId: session.conversationId,
+        userKey: session.userKey,
+        expiredAt: now,
+        expiredReason: reason
       });
     }
-    return this.client;
   }
 
   /**
-   * Setup MCP request handlers
+   * Register MCP request handlers - the single dispatch path for every transport
    */
-  private setupHandlers() {
+  private registerHandlers(server: Server, deploymentName?: string) {
     // List resources (for widgets) - must be first
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
       resources: [
         {
           uri: salesforceChatWidget.templateUri,
@@ -596,8 +1537,24 @@ class MIAWMCPServer {
     }));
 
     // Read resource (serve widget HTML)
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       console.error('ReadResource request received for:', request.params.uri);
+      const conversationResource = parseConversationResourceUri(request.params.uri);
+      if (conversationResource) {
+        const { sessionId, conversationId, kind } = conversationResource;
+        const entries = this.withDownloadLinks(await this.readConversation(sessionId, conversationId), sessionId);
+        return {
+          contents: [
+            {
+              uri: request.params.uri,
+              mimeType: RESOURCE_MIME_TYPES[kind],
+              text: kind === 'transcript'
+                ? renderTranscriptMarkdown(conversationId, entries)
+                : JSON.stringify({ conversationId, entries }, null, 2)
+            }
+          ]
+        };
+      }
       if (request.params.uri === salesforceChatWidget.templateUri) {
         if (!salesforceChatWidget.html) {
           throw new Error('Widget HTML not loaded. Check that widgets/salesforce-chat.html exists.');
@@ -618,7 +1575,7 @@ class MIAWMCPServer {
     });
 
     // List resource templates
-    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
       resourceTemplates: [
         {
           uriTemplate: salesforceChatWidget.templateUri,
@@ -626,59 +1583,237 @@ class MIAWMCPServer {
           description: `${salesforceChatWidget.title} widget markup`,
           mimeType: 'text/html+skybridge',
           _meta: widgetDescriptorMeta(salesforceChatWidget)
-        }
+        },
+        ...CONVERSATION_RESOURCE_TEMPLATES
       ]
     }));
 
+    // Conversation resource subscriptions for this connection: uri -> stops the watcher
+    const subscriptions = new Map<string, () => void>();
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      const target = parseConversationResourceUri(uri);
+      if (!target) {
+        throw new Error(`Resource does not support subscriptions: ${uri}`);
+      }
+      if (subscriptions.has(uri)) {
+        return {};
+      }
+
+      // Fails fast on a bad session or someone else's conversation
+      const latestId = (await this.readConversation(target.sessionId, target.conversationId)).pop()?.id;
+      subscriptions.set(uri, this.watchConversation(target.sessionId, target.conversationId, latestId, {
+        onUpdate: () => {
+          server.sendResourceUpdated({ uri }).catch((error) => console.error(`Resource update for ${uri} failed:`, error.message));
+        },
+        onEnd: (reason) => {
+          console.error(`Stopping resource subscription ${uri}: ${reason}`);
+          subscriptions.delete(uri);
+        }
+      }));
+      console.error(`Subscribed to ${uri}`);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.get(request.params.uri)?.();
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    server.onclose = () => {
+      subscriptions.forEach((stop) => stop());
+      subscriptions.clear();
+    };
+
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: this.getTools(),
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: await this.getTools(deploymentName),
     }));
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       try {
-        const client = this.initializeClient();
-        return await this.handleToolCall(client, request.params.name, request.params.arguments);
+        return await this.callTool(request.params.name, request.params.arguments, {
+          headers: extra.requestInfo?.headers,
+          deployment: deploymentName
+        });
       } catch (error) {
-        if (axios.isAxiosError(error)) {
-          const axiosError = error as AxiosError<types.ErrorResponse>;
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  error: true,
-                  message: axiosError.response?.data?.error?.message || axiosError.message,
-                  code: axiosError.response?.data?.error?.code || axiosError.code,
-                  details: axiosError.response?.data?.error?.details
-                }, null, 2)
-              }
-            ]
-          };
+        // Bad arguments are a protocol error, not a tool result
+        if (error instanceof InvalidArgumentsError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message, { code: error.code, problems: error.problems });
         }
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: true,
-                message: error instanceof Error ? error.message : 'Unknown error occurred'
-              }, null, 2)
-            }
-          ]
-        };
+        return toolErrorResult(error);
       }
     });
   }
 
+  /**
+   * Report new entries in a session's conversation: pushed by the event stream's
+   * 'entry' events when the event router is reachable, otherwise by polling REST.
+   * Watching never touches the session's activity, so a forgotten subscription
+   * cannot keep a session alive. Returns a function that stops watching.
+   */
+  private watchConversation(
+    sessionId: string,
+    conversationId: string,
+    latestId: string | undefined,
+    handlers: { onUpdate: () => void; onEnd: (reason: string) => void }
+  ): () => void {
+    let stream: MIAWEventStream | null = null;
+    let timer: NodeJS.Timeout | undefined;
+    let stopped = false;
+    const onEntry = (entryConversationId: string, entry: unknown) => {
+      if (entryConversationId !== conversationId) return;
+      latestId = entryIdOf(entry);
+      handlers.onUpdate();
+    };
+    const stop = () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.off('entry', onEntry);
+      stream = null;
+    };
+
+    const check = async () => {
+      try {
+        // sessions.get, not lookupSession: reading must not slide the idle TTL
+        const session = await sessions.get(sessionId);
+        const ended = !session ? 'session not found' : sessionExpiryReason(session);
+        if (!session || ended) {
+          stop();
+          handlers.onEnd(ended || 'session not found');
+          return;
+        }
+        const client = this.clientForSessionData(sessionId, session);
+        // A refreshed token or a dropped connection means a different (or no) stream
+        const current = await client.getEventStream();
+        if (stopped) return;
+        if (current !== stream) {
+          stream?.off('entry', onEntry);
+          stream = current;
+          stream?.on('entry', onEntry);
+        }
+        if (!stream) {
+          const newestId = normalizeEntries(entriesOf(await client.listConversationEntries(conversationId)), classifier).pop()?.id;
+          if (!stopped && newestId !== latestId) {
+            latestId = newestId;
+            handlers.onUpdate();
+          }
+        }
+      } catch (error: any) {
+        if (!stopped) {
+          stop();
+          handlers.onEnd(error.message);
+        }
+        return;
+      }
+      if (!stopped) {
+        timer = setTimeout(check, RESOURCE_WATCH_INTERVAL_MS);
+        timer.unref();
+      }
+    };
+
+    timer = setTimeout(check, 0);
+    timer.unref();
+    return stop;
+  }
+
+  /**
+   * Normalized entries for a session's conversation, from the event-stream buffer when
+   * the event router is reachable, otherwise over REST
+   */
+  private async readConversation(sessionId: string, conversationId: string): Promise<NormalizedEntry[]> {
+    const client = await this.clientForSession(sessionId);
+    assertConversationOwner(await sessions.get(sessionId), conversationId);
+
+    const eventStream = await client.getEventStream();
+    if (eventStream) {
+      if (!eventStream.isSeeded(conversationId)) {
+        const history = await client.listConversationEntries(conversationId);
+        eventStream.seed(conversationId, history.conversationEntries);
+      }
+      return normalizeEntries(eventStream.getEntries(conversationId), classifier);
+    }
+    return normalizeEntries(entriesOf(await client.listConversationEntries(conversationId)), classifier);
+  }
+
+  /**
+   * Full conversation history (every page), rendered in the requested format
+   */
+  private async buildTranscript(
+    sessionId: string,
+    conversationId: string,
+    format: TranscriptFormat
+  ): Promise<RenderedTranscript & { entryCount: number }> {
+    if (!isTranscriptFormat(format)) {
+      throw new ValidationError(`Unsupported transcript format "${format}". Use one of: ${TRANSCRIPT_FORMATS.join(', ')}`, 'UNSUPPORTED_FORMAT');
+    }
+    const client = await this.clientForSession(sessionId);
+    assertConversationOwner(await sessions.get(sessionId), conversationId);
+    const entries = normalizeEntries(await client.listAllConversationEntries(conversationId), classifier);
+    return {
+      ...renderTranscript(conversationId, this.withDownloadLinks(entries, sessionId), format),
+      entryCount: entries.length
+    };
+  }
+
+  /**
+   * Short-lived signed link to GET /api/transcript for one conversation and format
+   */
+  private transcriptDownloadUrl(sessionId: string, conversationId: string, format: TranscriptFormat, transcript: RenderedTranscript): string | undefined {
+    if (!canSignDownloadLinks()) return undefined;
+    const serverUrl = config.serverUrl;
+    return `${serverUrl}/api/transcript?token=${signDownloadToken({
+      sessionId,
+      transcript: { conversationId, format },
+      name: transcript.fileName,
+      mimeType: transcript.mimeType,
+      exp: Date.now() + this.attachmentPolicy.downloadTtlSeconds * 1000
+    })}`;
+  }
+
   /**
    * Define all available MCP tools
    */
-  private getTools(): any[] {
-    // Use the properly formatted tool definitions for ChatGPT compatibility
-    return MIAW_TOOLS;
+  private async getTools(deploymentName?: string): Promise<any[]> {
+    // Use the properly formatted tool definitions for ChatGPT compatibility,
+    // with create_conversation's pre-chat fields taken from the deployment
+    // and the token tools' deployment argument limited to the configured names
+    const prechatFields = extractPrechatFields(await this.ensureDeploymentConfig(deploymentName));
+    if (prechatFields.length === 0 && !deployments.isMulti()) {
+      return MIAW_TOOLS;
+    }
+
+    return MIAW_TOOLS.map((tool) => {
+      if (tool.inputSchema.properties.deployment && deployments.isMulti()) {
+        return {
+          ...tool,
+          inputSchema: {
+            ...tool.inputSchema,
+            properties: {
+              ...tool.inputSchema.properties,
+              deployment: { ...tool.inputSchema.properties.deployment, enum: deployments.names() }
+            }
+          }
+        };
+      }
+      if (tool.name !== 'create_conversation' || prechatFields.length === 0) {
+        return tool;
+      }
+      const schema = prechatInputSchema(prechatFields);
+      return {
+        ...tool,
+        inputSchema: {
+          ...tool.inputSchema,
+          properties: { ...tool.inputSchema.properties, prechatFields: schema },
+          required: schema.required.length > 0
+            ? [...tool.inputSchema.required, 'prechatFields']
+            : tool.inputSchema.required
+        }
+      };
+    });
     
     // Original 17 tools (keeping for reference, but using simplified 6-tool set above)
     /* return [
@@ -998,64 +2133,125 @@ class MIAWMCPServer {
    * Handle tool calls
    */
   private async handleToolCall(
-    client: MIAWClient,
     toolName: string,
-    args: any
+    args: any,
+    context: ToolCallContext = {}
   ): Promise<{ content: Array<{ type: string; text: string }>; _meta?: any; structuredContent?: any }> {
     let result: any;
+    args = args || {};
+
+    // Every call gets the client bound to its own session's token - never a shared one
+    let client: MIAWClient;
+    // New sessions are created in the selected deployment; everything else follows the session's
+    let deploymentName = deployments.defaultName;
+    if (toolName === 'generate_guest_access_token' || toolName === 'generate_authenticated_access_token') {
+      deploymentName = this.resolveDeployment(args, context);
+      client = this.createClient(deploymentName);
+    } else if (toolName === 'resume_conversation') {
+      client = this.createClient();
+    } else if (toolName === 'close_conversation') {
+      // Closing is best-effort; an unknown or expired session should not block it
+      client = await this.clientForSession(args.sessionId).catch((error) => {
+        console.error('close_conversation: no usable session, proceeding unauthenticated:', error.message);
+        return this.createClient();
+      });
+    } else {
+      client = await this.clientForSession(args.sessionId);
+    }
 
     switch (toolName) {
       case 'generate_guest_access_token':
+        if (args.userKey) {
+          await this.assertUserKeyAvailable(args.userKey, undefined);
+        }
         const tokenResponse = await client.generateGuestAccessToken(
           args.deviceId,
           { appName: args.appName, clientVersion: args.clientVersion },
           args.captchaToken
         );
+        this.rememberDeploymentConfig(deploymentName, tokenResponse);
         // Store token server-side and return sessionId (avoids exposing JWT to ChatGPT)
         const sessionId = generateSessionId();
-        sessions.set(sessionId, { accessToken: tokenResponse.accessToken });
+        const guestResume = args.userKey ? issueResumeToken() : undefined;
+        await sessions.set(sessionId, {
+          accessToken: tokenResponse.accessToken,
+          deployment: deploymentName,
+          userKey: args.userKey,
+          resumeTokenHash: guestResume?.resumeTokenHash,
+          tokenExpiresAt: tokenResponse.expiresIn ? Date.now() + tokenResponse.expiresIn * 1000 : undefined,
+          lastActivityAt: Date.now()
+        });
+        this.sessionClients.set(sessionId, client);
         result = {
           sessionId: sessionId,
+          deployment: deploymentName,
           expiresIn: tokenResponse.expiresIn || 3600,
+          resumeToken: guestResume?.resumeToken,
           message: 'Session created successfully. Use this sessionId for all subsequent calls.'
         };
         break;
 
       case 'generate_authenticated_access_token':
-        result = await client.generateAuthenticatedAccessToken(
-          args.jwt,
-          args.subject,
-          args.deviceId,
-          { appName: args.appName, clientVersion: args.clientVersion }
-        );
+        // The JWT comes from an upstream IdP header or is signed here - never from the LLM
+        const identity = resolveIdentityToken(this.identityConfig, context.headers, args.subject);
+        console.error(`Verified session requested (identity source: ${identity.source}, subject: ${identity.subject || 'unknown'})`);
+        const verifiedUserKey = args.userKey || identity.subject;
+        if (verifiedUserKey) {
+          await this.assertUserKeyAvailable(verifiedUserKey, identity.subject);
+        }
+        const verifiedResponse = await client.generateAuthenticatedAccessToken(identity.jwt, args.deviceId);
+        this.rememberDeploymentConfig(deploymentName, verifiedResponse);
+        const verifiedSessionId = generateSessionId();
+        const verifiedResume = verifiedUserKey ? issueResumeToken() : undefined;
+        await sessions.set(verifiedSessionId, {
+          accessToken: verifiedResponse.accessToken,
+          deployment: deploymentName,
+          subject: identity.subject,
+          userKey: verifiedUserKey,
+          resumeTokenHash: verifiedResume?.resumeTokenHash,
+          tokenExpiresAt: verifiedResponse.expiresIn ? Date.now() + verifiedResponse.expiresIn * 1000 : undefined,
+          lastActivityAt: Date.now()
+        });
+        this.sessionClients.set(verifiedSessionId, client);
+        result = {
+          sessionId: verifiedSessionId,
+          deployment: deploymentName,
+          expiresIn: verifiedResponse.expiresIn || 3600,
+          resumeToken: verifiedResume?.resumeToken,
+          verified: true,
+          message: 'Verified session created successfully. Use this sessionId for all subsequent calls.'
+        };
         break;
 
       case 'create_conversation':
-        if (args.sessionId) {
-          const session = sessions.get(args.sessionId);
-          if (!session) {
-            throw new Error('Invalid sessionId. Please generate a new session first.');
-          }
-          client.setAccessToken(session.accessToken);
-        }
+        // Validate pre-chat values against the deployment form; they travel as routingAttributes
+        const prechatAttributes = buildPrechatRoutingAttributes(
+          extractPrechatFields(await this.ensureDeploymentConfig((await sessions.get(args.sessionId))?.deployment)),
+          args.prechatFields,
+          args.prechatDetails
+        );
         const convResult = await client.createConversation({
           routableType: args.routableType,
-          routingAttributes: args.routingAttributes,
+          routingAttributes: { ...(args.routingAttributes || {}), ...prechatAttributes },
           capabilities: args.capabilities,
           conversationContextId: args.conversationContextId,
           prechatDetails: args.prechatDetails
         });
         // Store conversationId in session
         if (args.sessionId) {
-          const session = sessions.get(args.sessionId);
+          const session = await sessions.get(args.sessionId);
           if (session) {
-            session.conversationId = convResult.conversationId;
+            await sessions.set(args.sessionId, {
+              ...session,
+              conversationId: convResult.conversationId,
+              closedAt: undefined
+            });
           }
         }
         // Add explicit instruction to fetch greeting and start polling
         result = {
           ...convResult,
-          _nextAction: 'MANDATORY: Wait 3 seconds, then call list_conversation_entries to get the agent\'s greeting. After displaying it, KEEP POLLING (call list_conversation_entries every 3 seconds) to display any additional agent messages until the user responds. Track message IDs to avoid duplicates.'
+          _nextAction: 'MANDATORY: Wait 3 seconds, then call list_conversation_entries to get the agent\'s greeting. After displaying it, KEEP POLLING (call list_conversation_entries every 3 seconds) to display any additional agent messages until the user responds. Always pass since="cursor" so only new messages are returned.'
         };
         break;
 
@@ -1066,12 +2262,11 @@ class MIAWMCPServer {
         console.error(`SessionId: ${args.sessionId}`);
         console.error(`Timestamp: ${Date.now()}`);
         
-        // Prevent duplicate messages (same text within 10 seconds)
-        const msgKey = `${args.conversationId}:${args.text}`;
-        const now = Date.now();
-        const lastSentTime = recentMessages.get(msgKey);
-        if (lastSentTime && (now - lastSentTime) < 10000) {
-          console.error(`=== DUPLICATE MESSAGE BLOCKED (sent ${now - lastSentTime}ms ago) ===`);
+        // Prevent duplicate messages (same text within 10 seconds). The marker lives in the
+        // session store, so a retry that lands on another dyno is caught too.
+        const msgKey = recentMessageKey(args.conversationId, args.text);
+        if (!await sessions.claim(msgKey, DUPLICATE_MESSAGE_WINDOW_MS)) {
+          console.error('=== DUPLICATE MESSAGE BLOCKED ===');
           result = { 
             success: true, 
             message: 'Message already sent',
@@ -1079,34 +2274,26 @@ class MIAWMCPServer {
           };
           break;
         }
-        recentMessages.set(msgKey, now);
         
-        // Clean up old entries (older than 30 seconds)
-        for (const [key, time] of recentMessages.entries()) {
-          if (now - time > 30000) {
-            recentMessages.delete(key);
-          }
-        }
-        
-        if (args.sessionId) {
-          const session = sessions.get(args.sessionId);
-          if (!session) {
-            throw new Error('Invalid sessionId. Please generate a new session first.');
-          }
-          client.setAccessToken(session.accessToken);
+        let sendResult: types.SendMessageResponse;
+        try {
+          sendResult = await client.sendMessage(args.conversationId, {
+            message: {
+              text: args.text,
+              messageType: args.messageType || 'StaticContentMessage'
+            },
+            clientTimestamp: args.clientTimestamp
+          });
+        } catch (error) {
+          // Not sent - allow the retry (e.g. after a token refresh) through the duplicate guard
+          await sessions.release(msgKey);
+          throw error;
         }
-        const sendResult = await client.sendMessage(args.conversationId, {
-          message: {
-            text: args.text,
-            messageType: args.messageType || 'StaticContentMessage'
-          },
-          clientTimestamp: args.clientTimestamp
-        });
         console.error(`=== SEND_MESSAGE COMPLETED ===`);
         // Add explicit instruction to fetch reply and resume polling
         result = {
           ...sendResult,
-          _nextAction: 'MANDATORY: Wait 3-5 seconds, then call list_conversation_entries to get the agent\'s reply. After displaying it, KEEP POLLING (call list_conversation_entries every 3 seconds) to display any additional agent messages until the user responds again. Track message IDs to avoid duplicates.'
+          _nextAction: 'MANDATORY: Wait 3-5 seconds, then call list_conversation_entries to get the agent\'s reply. After displaying it, KEEP POLLING (call list_conversation_entries every 3 seconds) to display any additional agent messages until the user responds again. Always pass since="cursor" so only new messages are returned.'
         };
         break;
 
@@ -1116,137 +2303,103 @@ class MIAWMCPServer {
         break;
 
       case 'list_conversation_entries':
-        if (args.sessionId) {
-          const session = sessions.get(args.sessionId);
-          if (!session) {
-            throw new Error('Invalid sessionId. Please generate a new session first.');
-          }
-          client.setAccessToken(session.accessToken);
-        }
         
         // skipPolling=true: Widget requests - return immediately without waiting
-        // skipPolling=false/undefined: ChatGPT requests - poll until valid message
+        // skipPolling=false/undefined: ChatGPT requests - wait for a whole bot turn (see wait-strategy.ts)
         const shouldPoll = !args.skipPolling;
         
-        const maxWaitTime = shouldPoll ? 25000 : 0; // 25 seconds for ChatGPT, 0 for widget
-        const pollInterval = 500; // 500ms (0.5 seconds) - faster response!
-        const startTime = Date.now();
         let entriesResult: any;
         let foundValidMessage = false;
-        let mostRecentValidRole = '';
-        let mostRecentValidSender = '';
+        let stopReason: WaitStopReason = 'timeout';
+        // MIAW_POLL_* defaults with the session's deployment overrides
+        const sessionStrategy = {
+          ...waitStrategy,
+          ...deployments.get((await sessions.get(args.sessionId))?.deployment).poll
+        };
+        const longPoll = new LongPoll(sessionStrategy);
         
         if (shouldPoll) {
-          console.error('Polling for valid Chatbot/Agent message...');
+          console.error(`Waiting for Chatbot/Agent reply (max ${sessionStrategy.maxWaitMs}ms, quiet period ${sessionStrategy.quietPeriodMs}ms)...`);
         } else {
           console.error('Widget request - returning immediately (skipPolling=true)');
         }
         
-        // Poll until the MOST RECENT message is from Chatbot or Agent (not EndUser)
-        // Key: We need to wait for a response that's NEWER than the user's last message
-        while (Date.now() - startTime < maxWaitTime || !entriesResult) {
+        // Answer from the SSE buffer when the event router is reachable; otherwise poll REST.
+        // An explicit continuationToken is a pagination request, so it always goes to REST.
+        const eventStream = args.continuationToken ? null : await client.getEventStream();
+        if (eventStream && !eventStream.isSeeded(args.conversationId)) {
+          // Merge history from before the subscription was opened (one REST call per conversation)
+          const history = await client.listConversationEntries(args.conversationId);
+          eventStream.seed(args.conversationId, history.conversationEntries);
+        }
+        
+        // since="cursor": resume from the read cursor stored for cursorId; since="<cursor>": from
+        // that entry. Without since, the full history is returned as before.
+        const cursorId = args.cursorId || DEFAULT_CURSOR_ID;
+        let sinceCursor: EntryCursor | null = null;
+        if (args.since === 'cursor') {
+          sinceCursor = (await sessions.get(args.sessionId))?.readCursors?.[cursorId] || {};
+        } else if (args.since) {
+          sinceCursor = parseCursor(String(args.since));
+        }
+        
+        // Wait until Chatbot/Agent replies NEWER than the user's last message (or, in since
+        // mode, after the cursor) have stopped arriving, the conversation is routed or closed,
+        // or the max wait runs out
+        let normalizedEntries: NormalizedEntry[] = [];
+        let newEntries: NormalizedEntry[] = [];
+        while (true) {
           const pollStart = Date.now();
           
-          entriesResult = await client.listConversationEntries(
-            args.conversationId,
-            args.continuationToken
-          );
+          entriesResult = eventStream
+            ? { conversationEntries: eventStream.getEntries(args.conversationId) }
+            : await client.listConversationEntries(args.conversationId, args.continuationToken);
           
           const apiTime = Date.now() - pollStart;
-          console.error(`API call took ${apiTime}ms`);
-          
-          // Salesforce returns conversationEntries (not entries)
-          const allEntries: any[] = entriesResult.conversationEntries || entriesResult.entries || [];
-          
-          // Sort ALL messages by timestamp (newest first)
-          const allMessages = allEntries
-            .filter((e: any) => e.entryType === 'Message')
-            .sort((a: any, b: any) => (b.transcriptedTimestamp || 0) - (a.transcriptedTimestamp || 0));
-          
-          // Get the ABSOLUTE most recent message (regardless of role)
-          const absoluteMostRecent = allMessages[0];
-          const absoluteRole = absoluteMostRecent?.sender?.role || '';
-          const absoluteSender = absoluteMostRecent?.senderDisplayName || '';
-          const absoluteText = absoluteMostRecent?.entryPayload?.abstractMessage?.staticContent?.text || '';
-          const absoluteTimestamp = absoluteMostRecent?.transcriptedTimestamp || 0;
-          
-          console.error(`Absolute most recent: "${absoluteSender}" (role: ${absoluteRole}), ts: ${absoluteTimestamp}, text: "${absoluteText.substring(0, 50)}..."`);
+          console.error(`${eventStream ? 'Buffer read' : 'API call'} took ${apiTime}ms`);
           
-          // Check if most recent is from Chatbot or Agent (a RESPONSE, not user's own message)
-          const isSystemMessage = absoluteText.includes('One moment while I connect you') ||
-                                  absoluteText.includes('connect you to the next available') ||
-                                  absoluteText.includes('thanks for reaching out') ||
-                                  absoluteText.includes('We will be with you shortly');
-          const isAutomatedProcess = absoluteSender.includes('Automated Process');
-          const isValidResponse = (absoluteRole === 'Chatbot' || absoluteRole === 'Agent') && 
-                                  !isSystemMessage && !isAutomatedProcess;
+          // Oldest first, de-duplicated and classified
+          normalizedEntries = normalizeEntries(entriesOf(entriesResult), classifier);
+          newEntries = sinceCursor ? entriesAfter(normalizedEntries, sinceCursor) : normalizedEntries;
           
-          if (isValidResponse) {
-            mostRecentValidRole = absoluteRole;
-            mostRecentValidSender = absoluteSender;
-            foundValidMessage = true;
-            console.error(`Most recent is valid response from "${mostRecentValidSender}" (role: ${mostRecentValidRole}). Returning!`);
-            break;
-          }
+          const replies = sinceCursor ? newEntries.filter(isResponseEntry) : pendingReplies(normalizedEntries);
+          foundValidMessage = replies.length > 0;
           
           // If skipPolling (widget request), break after first attempt
           if (!shouldPoll) {
             console.error('Widget request - breaking after first fetch');
-            // Still need to find most recent Chatbot/Agent for role info
-            const validMsgs = allMessages.filter((e: any) => {
-              const r = e.sender?.role || '';
-              return r === 'Chatbot' || r === 'Agent';
-            });
-            if (validMsgs[0]) {
-              mostRecentValidRole = validMsgs[0].sender?.role || '';
-              mostRecentValidSender = validMsgs[0].senderDisplayName || '';
-              foundValidMessage = true;
-            }
             break;
           }
           
-          console.error(`Most recent is ${absoluteRole} (not Chatbot/Agent). Waiting for response...`);
+          const decision = longPoll.observe(normalizedEntries, replies);
+          if (decision.done) {
+            stopReason = decision.reason;
+            console.error(`Stopped waiting (${decision.reason}) after ${longPoll.elapsedMs}ms and ${longPoll.fetchCount} fetch(es), ${replies.length} reply message(s)`);
+            break;
+          }
           
-          const elapsed = Date.now() - startTime;
-          if (elapsed < maxWaitTime) {
-            console.error(`Polling again in ${pollInterval}ms... (${Math.floor(elapsed/1000)}s elapsed)`);
-            await new Promise(resolve => setTimeout(resolve, pollInterval));
+          if (eventStream) {
+            await eventStream.waitForEntry(args.conversationId, decision.deadlineMs);
+          } else {
+            console.error(`Polling again in ${decision.delayMs}ms... (${Math.floor(longPoll.elapsedMs / 1000)}s elapsed)`);
+            await new Promise(resolve => setTimeout(resolve, decision.delayMs));
           }
         }
         
-        if (!foundValidMessage && shouldPoll) {
-          console.error('Timeout (25s). No valid Chatbot/Agent message found.');
-        }
+        // ONLY Chatbot/Agent replies - no EndUser echoes, system templates or automated messages
+        // (and in since mode, only those after the cursor)
+        const filteredEntries = newEntries.filter(isResponseEntry);
+        // Bubbles in the bot's current turn, and the routing event that ended the wait (if any)
+        const turnLength = sinceCursor ? filteredEntries.length : pendingReplies(normalizedEntries).length;
+        const routingUpdate = stopReason === 'routing'
+          ? normalizedEntries.filter((e) => e.type === 'RoutingResult' || e.type === 'RoutingWorkResult' || e.type === 'ParticipantChanged').pop()
+          : undefined;
+        const latestDelivered = filteredEntries[filteredEntries.length - 1];
         
         // Get role info from most recent RESPONSE message (Chatbot/Agent only, not EndUser)
-        // Salesforce returns conversationEntries (not entries)
-        const allEntriesForRole: any[] = entriesResult.conversationEntries || entriesResult.entries || [];
-        const responseMessages = allEntriesForRole
-          .filter((e: any) => e.entryType === 'Message')
-          .filter((e: any) => {
-            const sender = e.senderDisplayName || '';
-            const role = e.sender?.role || '';
-            const messageReason = e.entryPayload?.messageReason || '';
-            const messageText = e.entryPayload?.abstractMessage?.staticContent?.text || '';
-            
-            // Same strict filtering as polling
-            const isSystemRole = role === 'System' || role === '' || !role;
-            const isAutomatedProcess = sender.includes('Automated Process');
-            const isAutomatedResponse = messageReason === 'AutomatedResponse';
-            const isSystemMessage = messageText.includes('One moment while I connect you') ||
-                                    messageText.includes('connect you to the next available') ||
-                                    messageText.includes('thanks for reaching out') ||
-                                    messageText.includes('We will be with you shortly');
-            // Only Chatbot/Agent - not EndUser
-            const isResponseRole = role === 'Chatbot' || role === 'Agent';
-            
-            return isResponseRole && !isSystemRole && !isAutomatedProcess && !isAutomatedResponse && !isSystemMessage;
-          })
-          .sort((a: any, b: any) => (b.transcriptedTimestamp || 0) - (a.transcriptedTimestamp || 0));
-        
-        const mostRecentResponse = responseMessages[0];
-        const senderRole = mostRecentResponse?.sender?.role || mostRecentResponse?.senderRole || 'Unknown';
-        const senderDisplayName = mostRecentResponse?.senderDisplayName || 'Unknown';
+        const mostRecentResponse = normalizedEntries.filter(isResponseEntry).pop();
+        const senderRole = mostRecentResponse?.role || 'Unknown';
+        const senderDisplayName = mostRecentResponse?.senderName || 'Unknown';
         
         console.error(`Most recent Chatbot/Agent response from: ${senderDisplayName} (role: ${senderRole})`);
         
@@ -1254,76 +2407,47 @@ class MIAWMCPServer {
         // isLiveAgent is TRUE only when role is "Agent" (not Chatbot, not System)
         const isLiveAgent = senderRole === 'Agent';
         
-        // Filter entries to ONLY include Chatbot/Agent messages - NO EndUser, NO System
-        const allRawEntries = entriesResult.conversationEntries || entriesResult.entries || [];
-        
-        // First, deduplicate by message ID (Salesforce sometimes returns duplicates)
-        const seenIds = new Set<string>();
-        const dedupedEntries = allRawEntries.filter((e: any) => {
-          const msgId = e.identifier || e.entryPayload?.id || e.transcriptedTimestamp;
-          if (seenIds.has(msgId)) {
-            return false; // Skip duplicate
-          }
-          seenIds.add(msgId);
-          return true;
-        });
-        
-        console.error(`Deduped entries: ${allRawEntries.length} -> ${dedupedEntries.length}`);
-        
-        const filteredEntries = dedupedEntries.filter((e: any) => {
-          if (e.entryType !== 'Message') return false; // ONLY keep Message entries for ChatGPT
-          const sender = e.senderDisplayName || '';
-          const role = e.sender?.role || '';
-          const messageReason = e.entryPayload?.messageReason || e.messageReason || '';
-          const messageText = e.entryPayload?.abstractMessage?.staticContent?.text || '';
-          
-          // REJECT LIST: System role, EndUser, Automated Process, AutomatedResponse, known system messages
-          const isSystemRole = role === 'System' || role === '' || !role;
-          const isEndUser = role === 'EndUser'; // Don't show user's own messages back to them
-          const isAutomatedProcess = sender.includes('Automated Process') || sender.includes('automated');
-          const isAutomatedResponse = messageReason === 'AutomatedResponse';
-          const isSystemMessage = messageText.includes('One moment while I connect you') ||
-                                  messageText.includes('connect you to the next available') ||
-                                  messageText.includes('thanks for reaching out') ||
-                                  messageText.includes('We will be with you shortly');
-          
-          // ONLY accept Chatbot or Agent - NOT EndUser (user's own messages)
-          const isResponseRole = role === 'Chatbot' || role === 'Agent';
-          
-          const shouldReject = isSystemRole || isEndUser || isAutomatedProcess || isAutomatedResponse || isSystemMessage || !isResponseRole;
-          
-          return !shouldReject;
-        });
+        // Closure entries: close/end-routing/participant-left events, or an "agent ended the chat" message,
+        // unless someone joined or replied since
+        const closureEntries = closingEntries(normalizedEntries);
+        const conversationEnded = closureEntries.length > 0;
+        const endedByAgent = closureEntries.some((e) => e.type === 'Message');
         
-        // Check for conversation close events - including "agent ended chat" message
-        const closeEvents = allRawEntries.filter((e: any) => 
-          e.entryType === 'ConversationClose' || 
-          (e.entryType === 'RoutingResult' && e.entryPayload?.routingType === 'EndConversation') ||
-          (e.entryType === 'ParticipantChanged' && e.entryPayload?.participantChangeType === 'Left')
-        );
+        if (conversationEnded) {
+          console.error('Conversation has been closed', endedByAgent ? '(by agent)' : '');
+        }
         
-        // Also check for "agent ended chat" message from Automated Process
-        const agentEndedMessage = allRawEntries.find((e: any) => {
-          const text = e.entryPayload?.abstractMessage?.staticContent?.text || '';
-          const sender = e.senderDisplayName || '';
-          return sender.includes('Automated Process') && 
-                 (text.includes('agent has ended the chat') || 
-                  text.includes('chat has ended') ||
-                  text.includes('conversation has ended'));
-        });
+        // Everything returned to the caller counts as delivered; the widget sends Read once rendered
+        void client.acknowledgeEntries(args.conversationId, filteredEntries.map((e) => e.id), 'Delivered');
         
-        const conversationEnded = closeEvents.length > 0 || !!agentEndedMessage;
-        const endedByAgent = !!agentEndedMessage;
+        // Surface agent typing from the event stream. A message newer than the indicator,
+        // or an indicator older than TYPING_STALE_MS, means the agent is no longer typing.
+        const typingState = eventStream?.getTypingState(args.conversationId);
+        const agentTyping = !!typingState?.isTyping &&
+          typingState.role !== 'EndUser' &&
+          Date.now() - typingState.timestamp < TYPING_STALE_MS &&
+          (mostRecentResponse?.timestamp || 0) <= typingState.timestamp;
         
-        if (conversationEnded) {
-          console.error('Conversation has been closed', endedByAgent ? '(by agent)' : '');
+        // Advance the stored cursor of the consumer that read through it, so since="cursor"
+        // (and resume_conversation, for the default one) never return these entries again
+        if (args.since === 'cursor' && latestDelivered) {
+          const current = await sessions.get(args.sessionId);
+          if (current && latestDelivered.timestamp >= (current.readCursors?.[cursorId]?.timestamp || 0)) {
+            await sessions.set(args.sessionId, {
+              ...current,
+              readCursors: withReadCursor(current.readCursors, cursorId, { entryId: latestDelivered.id, timestamp: latestDelivered.timestamp })
+            });
+          }
         }
         
-        // Return filtered entries for ChatGPT, but include _rawEntries for widget
         result = {
-          entries: filteredEntries, // Return ONLY filtered messages for ChatGPT
-          _rawEntries: allRawEntries, // Include raw entries for widget to detect close events
+          entries: this.withDownloadLinks(filteredEntries, args.sessionId), // Return ONLY filtered messages for ChatGPT
+          typing: agentTyping
+            ? { isTyping: true, senderDisplayName: typingState?.senderDisplayName }
+            : { isTyping: false },
           continuationToken: entriesResult.continuationToken,
+          // Pass back as `since` to get only newer entries
+          cursor: formatCursor(latestDelivered ? { entryId: latestDelivered.id, timestamp: latestDelivered.timestamp } : sinceCursor || {}),
           _roleInfo: {
             mostRecentSenderRole: senderRole,
             mostRecentSenderName: senderDisplayName,
@@ -1337,111 +2461,104 @@ class MIAWMCPServer {
               ? `The conversation has ended${endedByAgent ? ' by the agent' : ''}.`
               : isLiveAgent 
                 ? `LIVE AGENT DETECTED! Call show_salesforce_chat NOW with: sessionId="${args.sessionId}", conversationId="${args.conversationId}", agentName="${senderDisplayName}". DO NOT display messages yourself - the chat widget will show them.`
-                : !foundValidMessage || senderRole === 'Unknown' 
-                  ? `Still waiting for Chatbot/Agent response. Call list_conversation_entries again to poll.`
-                  : `VERBATIM ONLY: Reply with EXACTLY the most recent Chatbot/Agent message text. No commentary.`
+                : !foundValidMessage || !latestDelivered
+                  ? stopReason === 'routing'
+                    ? `The conversation is being routed (${routingUpdate?.text || 'participants changed'}). Call list_conversation_entries again to wait for the reply.`
+                    : `Still waiting for Chatbot/Agent response. Call list_conversation_entries again to poll.`
+                  : latestDelivered.content?.kind === 'choices' && latestDelivered.content.options?.length
+                    ? `The most recent message offers choices. Show its text VERBATIM, then call send_choice_response with the optionId the user picks and inReplyToMessageId="${latestDelivered.messageId || ''}".`
+                    : turnLength > 1
+                      ? `VERBATIM ONLY: Reply with EXACTLY the text of the last ${turnLength} entries, in order. No commentary.`
+                      : `VERBATIM ONLY: Reply with EXACTLY the most recent Chatbot/Agent message text. No commentary.`,
+            // response = whole turn received, routing/closed = early return, timeout = nothing yet
+            stopReason: shouldPoll ? stopReason : undefined
           }
         };
         break;
 
       case 'get_conversation_routing_status':
-        if (args.sessionId) {
-          const session = sessions.get(args.sessionId);
-          if (!session) {
-            throw new Error('Invalid sessionId. Please generate a new session first.');
-          }
-          client.setAccessToken(session.accessToken);
-        }
         result = await client.getConversationRoutingStatus(args.conversationId);
         break;
 
       case 'get_conversation_transcript':
-        result = await client.getConversationTranscript(args.conversationId);
+        const transcriptFormat: TranscriptFormat = args.format ?? 'markdown';
+        const transcript = await this.buildTranscript(args.sessionId, args.conversationId, transcriptFormat);
+        result = {
+          conversationId: args.conversationId,
+          format: transcriptFormat,
+          fileName: transcript.fileName,
+          entryCount: transcript.entryCount,
+          // PDF is binary, so it is only offered as a download
+          transcript: transcriptFormat === 'pdf' ? undefined : transcript.content,
+          downloadUrl: this.transcriptDownloadUrl(args.sessionId, args.conversationId, transcriptFormat, transcript)
+        };
         break;
 
       case 'send_delivery_acknowledgements':
-        await client.sendDeliveryAcknowledgements(args.conversationId, {
-          acknowledgements: args.acknowledgements
-        });
-        result = { success: true, message: 'Acknowledgements sent' };
+        const acknowledged = await client.acknowledgeEntries(
+          args.conversationId,
+          args.entryIds || [],
+          args.status === 'Delivered' ? 'Delivered' : 'Read'
+        );
+        result = { success: true, acknowledged };
         break;
 
       case 'send_file':
-        result = await client.sendFile(args.conversationId, {
+        const fileData = await prepareUpload(this.attachmentPolicy, args.fileName, args.mimeType, args.fileData || '');
+        const fileResult = await client.sendFile(args.conversationId, {
           file: {
-            data: args.fileData,
+            data: fileData,
             fileName: args.fileName,
             mimeType: args.mimeType
-          }
+          },
+          text: args.text
+        });
+        result = {
+          success: true,
+          messageId: fileResult.id,
+          fileName: args.fileName,
+          size: fileData.length
+        };
+        break;
+
+      case 'send_choice_response':
+        const choiceResult = await client.sendChoiceResponse(args.conversationId, {
+          optionId: args.optionId,
+          title: args.title,
+          inReplyToMessageId: args.inReplyToMessageId
         });
+        result = {
+          success: true,
+          messageId: choiceResult.id,
+          optionId: args.optionId,
+          _nextAction: 'MANDATORY: Wait 3-5 seconds, then call list_conversation_entries with since="cursor" to get the reply to this selection.'
+        };
         break;
 
       case 'close_conversation':
         console.error('close_conversation called with:', { sessionId: args.sessionId, conversationId: args.conversationId });
-        if (args.sessionId) {
-          const session = sessions.get(args.sessionId);
-          if (!session) {
-            console.error('Session not found in sessions map. Available sessions:', Array.from(sessions.keys()));
-            // Try to proceed anyway - the session might have been cleared but we still have valid auth
-          } else {
-            console.error('Found session, setting access token');
-            client.setAccessToken(session.accessToken);
-          }
-        } else {
-          console.error('No sessionId provided!');
-        }
-        try {
-          // Try the combined approach - close conversation AND end messaging session
-          await client.closeConversationAndSession(args.conversationId);
-          result = { success: true, message: 'Conversation closed' };
-        } catch (error: any) {
-          console.error('closeConversationAndSession error:', error.response?.status, error.response?.data);
-          // Return success anyway - we tried our best
-          result = { success: true, message: 'Chat ended (cleanup attempted)' };
+        // Close conversation AND end messaging session; a failure surfaces as an error result
+        await client.closeConversationAndSession(args.conversationId);
+        client.closeEventStream();
+        // Start the closed-session grace period; the reaper revokes the token afterwards
+        const closedSession = args.sessionId ? await sessions.get(args.sessionId) : undefined;
+        if (closedSession && !closedSession.expiredAt) {
+          await sessions.set(args.sessionId, { ...closedSession, closedAt: Date.now() });
         }
+        result = { success: true, message: 'Conversation closed' };
         break;
 
       case 'show_salesforce_chat':
-        if (args.sessionId) {
-          const session = sessions.get(args.sessionId);
-          if (!session) {
-            throw new Error('Invalid sessionId. Please generate a new session first.');
-          }
-          client.setAccessToken(session.accessToken);
-        }
         
         // Get current conversation entries to pass to the widget
-        const chatEntries: any = await client.listConversationEntries(args.conversationId);
-        // Salesforce returns conversationEntries (not entries)
-        const rawChatEntries = chatEntries.conversationEntries || chatEntries.entries || [];
-        const allMessages = rawChatEntries
-          .filter((e: any) => e.entryType === 'Message')
-          .filter((e: any) => {
-            const sender = e.senderDisplayName || '';
-            const role = e.sender?.role || '';
-            const messageReason = e.entryPayload?.messageReason || '';
-            const messageText = e.entryPayload?.abstractMessage?.staticContent?.text || '';
-            
-            // Same strict filtering
-            const isSystemRole = role === 'System' || role === '' || !role;
-            const isAutomatedProcess = sender.includes('Automated Process');
-            const isAutomatedResponse = messageReason === 'AutomatedResponse';
-            const isSystemMessage = messageText.includes('One moment while I connect you') ||
-                                    messageText.includes('connect you to the next available') ||
-                                    messageText.includes('thanks for reaching out') ||
-                                    messageText.includes('We will be with you shortly');
-            const isValidRole = role === 'Chatbot' || role === 'Agent' || role === 'EndUser';
-            
-            return isValidRole && !isSystemRole && !isAutomatedProcess && !isAutomatedResponse && !isSystemMessage;
-          })
-          .sort((a: any, b: any) => (a.transcriptedTimestamp || 0) - (b.transcriptedTimestamp || 0))
-          .map((e: any) => ({
-            sender: e.senderDisplayName || 'Agent',
-            senderType: e.senderRole,
-            senderName: e.senderDisplayName || 'Agent',
-            text: e.messageContent?.staticContent?.text || '',
-            timestamp: e.transcriptedTimestamp || Date.now()
-          }));
+        const chatStream = await client.getEventStream();
+        const chatEntries = chatStream?.isSeeded(args.conversationId)
+          ? chatStream.getEntries(args.conversationId)
+          : (await client.listConversationEntries(args.conversationId)).conversationEntries;
+        const allMessages = this.withDownloadLinks(
+          normalizeEntries(chatEntries, classifier).filter((e) => isResponseEntry(e) || e.classification === 'user'),
+          args.sessionId
+        );
         
         // Return widget with structured content for the embedded UI
         return {
@@ -1454,7 +2571,7 @@ class MIAWMCPServer {
           structuredContent: {
             sessionId: args.sessionId,
             conversationId: args.conversationId,
-            serverUrl: process.env.SERVER_URL || 'https://miaw-mcp-server-6df009bc852c.herokuapp.com',
+            serverUrl: config.serverUrl,
             agentName: args.agentName || 'Salesforce Agent',
             messages: allMessages
           },
@@ -1465,9 +2582,13 @@ class MIAWMCPServer {
         result = await client.listConversations();
         break;
 
+      case 'resume_conversation':
+        result = await this.resumeConversation(args, context);
+        break;
+
       case 'end_messaging_session':
         if (!args.conversationId) {
-          throw new Error('conversationId is required for end_messaging_session');
+          throw new ValidationError('conversationId is required for end_messaging_session', 'INVALID_ARGUMENTS');
         }
         await client.endMessagingSession(args.conversationId);
         result = { success: true, message: 'Messaging session ended' };
@@ -1483,7 +2604,7 @@ class MIAWMCPServer {
         break;
 
       default:
-        throw new Error(`Unknown tool: ${toolName}`);
+        throw new ValidationError(`Unknown tool: ${toolName}`, 'UNKNOWN_TOOL', undefined, 404);
     }
 
     return {
@@ -1510,9 +2631,9 @@ class MIAWMCPServer {
   }
 
   /**
-   * Create a new MCP Server instance for a connection
+   * Create a new MCP Server instance for a connection, optionally bound to a deployment
    */
-  private createServerInstance(): Server {
+  private createServerInstance(deploymentName?: string): Server {
     const server = new Server(
       {
         name: 'miaw-mcp-server',
@@ -1520,117 +2641,29 @@ class MIAWMCPServer {
       },
       {
         capabilities: {
-          resources: {},
+          resources: { subscribe: true },
           tools: {},
         },
+        instructions: MCP_INSTRUCTIONS
       }
     );
 
-    // Setup handlers for this instance - resources first
-    // List resources (for widgets)
-    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: [
-        {
-          uri: salesforceChatWidget.templateUri,
-          name: salesforceChatWidget.title,
-          description: `${salesforceChatWidget.title} widget markup`,
-          mimeType: 'text/html+skybridge',
-          _meta: widgetDescriptorMeta(salesforceChatWidget)
-        }
-      ]
-    }));
-
-    // Read resource (serve widget HTML)
-    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      console.error('SSE ReadResource request received for:', request.params.uri);
-      if (request.params.uri === salesforceChatWidget.templateUri) {
-        if (!salesforceChatWidget.html) {
-          throw new Error('Widget HTML not loaded. Check that widgets/salesforce-chat.html exists.');
-        }
-        console.error('SSE Serving widget HTML (' + salesforceChatWidget.html.length + ' bytes)');
-        return {
-          contents: [
-            {
-              uri: salesforceChatWidget.templateUri,
-              mimeType: 'text/html+skybridge',
-              text: salesforceChatWidget.html,
-              _meta: widgetDescriptorMeta(salesforceChatWidget)
-            }
-          ]
-        };
-      }
-      throw new Error(`Unknown resource: ${request.params.uri}`);
-    });
-
-    // List resource templates
-    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
-      resourceTemplates: [
-        {
-          uriTemplate: salesforceChatWidget.templateUri,
-          name: salesforceChatWidget.title,
-          description: `${salesforceChatWidget.title} widget markup`,
-          mimeType: 'text/html+skybridge',
-          _meta: widgetDescriptorMeta(salesforceChatWidget)
-        }
-      ]
-    }));
-
-    // List tools
-    server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: this.getTools(),
-    }));
-
-    // Handle tool calls
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        const client = this.initializeClient();
-        return await this.handleToolCall(client, request.params.name, request.params.arguments);
-      } catch (error) {
-        if (axios.isAxiosError(error)) {
-          const axiosError = error as AxiosError<types.ErrorResponse>;
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  error: true,
-                  message: axiosError.response?.data?.error?.message || axiosError.message,
-                  code: axiosError.response?.data?.error?.code || axiosError.code,
-                  details: axiosError.response?.data?.error?.details
-                }, null, 2)
-              }
-            ]
-          };
-        }
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: true,
-                message: error instanceof Error ? error.message : 'Unknown error occurred'
-              }, null, 2)
-            }
-          ]
-        };
-      }
-    });
-
+    this.registerHandlers(server, deploymentName);
     return server;
   }
 
   /**
-   * Start the MCP server in HTTP/SSE mode (hosted)
+   * Build the express app for HTTP/SSE mode (MCP endpoints plus the REST API)
    */
-  async startHttp(port: number = 3000) {
+  createHttpApp(): express.Express {
     const app = express();
     
     // Enable CORS for all routes
     app.use((_req, res, next) => {
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS, HEAD');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID, X-MIAW-API-Key');
+      res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
       next();
     });
     
@@ -1650,16 +2683,16 @@ class MIAWMCPServer {
         description: 'MCP Server for Salesforce Enhanced Chat (MIAW) API',
         version: '1.0.0',
         mcp_endpoint: '/mcp',
-        api_endpoints: '/api/*',
+        api_endpoints: '/api/{tool}',
         health_check: '/health',
         openapi_schema: '/openapi-schema.json',
         documentation: 'https://github.com/your-repo/miaw-mcp-server'
       });
     });
 
-    // Serve OpenAPI schema for ChatGPT Actions
-    app.get('/openapi-schema.json', (_req, res) => {
-      res.sendFile('openapi-schema.json', { root: process.cwd() });
+    // OpenAPI document for ChatGPT Actions, generated from the tools (with the default deployment's pre-chat fields)
+    app.get(['/openapi-schema.json', '/openapi.json'], async (_req, res) => {
+      res.json(buildOpenApiDocument(await this.getTools(), config.serverUrl, '1.0.0'));
     });
 
     // Privacy policy endpoint
@@ -1799,9 +2832,8 @@ class MIAWMCPServer {
 
     // Thin REST API wrappers for ChatGPT Actions - reuses MCP tool handler logic
     // Helper to call MCP tool handler and unwrap JSON-RPC response
-    const callMCPToolHandler = async (toolName: string, args: any) => {
-      const client = this.initializeClient();
-      const mcpResponse = await this.handleToolCall(client, toolName, args);
+    const callMCPToolHandler = async (toolName: string, args: any, headers?: RequestHeaders) => {
+      const mcpResponse = await this.callTool(toolName, args, { headers });
       // Unwrap the MCP response format: { content: [{ type: 'text', text: '...' }] }
       const resultText = mcpResponse.content[0].text;
       const result = JSON.parse(resultText);
@@ -1812,78 +2844,211 @@ class MIAWMCPServer {
       return result;
     };
 
-    // REST API endpoints - thin wrappers that call existing MCP tool handlers
-    app.post('/api/generate-session', async (req, res) => {
+    // REST API: POST /api/{tool} for every tool (arguments are validated by callTool)
+    const restToolHandler = (toolName: string) => async (req: express.Request, res: express.Response) => {
       try {
-        const result = await callMCPToolHandler('generate_guest_access_token', req.body || {});
-        res.json(result);
-      } catch (error: any) {
-        console.error('Error in /api/generate-session:', error);
-        res.status(500).json({ error: error.message });
+        res.json(await callMCPToolHandler(toolName, req.body || {}, req.headers));
+      } catch (error) {
+        sendRestError(res, error, req.path);
       }
-    });
+    };
+
+    for (const tool of MIAW_TOOLS) {
+      app.post(toolRestPath(tool.name), restToolHandler(tool.name));
+    }
+    for (const [route, toolName] of Object.entries(LEGACY_REST_ROUTES)) {
+      app.post(`/api/${route}`, restToolHandler(toolName));
+    }
 
-    app.post('/api/create-conversation', async (req, res) => {
+    // Short-lived attachment download links (signed by enrichEntries)
+    app.get('/api/attachment', async (req, res) => {
+      const download = verifyDownloadToken(String(req.query.token || ''));
+      if (!download?.url) {
+        return sendRestError(res, new AuthError('Download link is invalid or has expired', 'ATTACHMENT_LINK_EXPIRED', 403));
+      }
       try {
-        const result = await callMCPToolHandler('create_conversation', req.body);
-        res.json(result);
-      } catch (error: any) {
-        console.error('Error in /api/create-conversation:', error);
-        res.status(error.response?.status || 500).json({ error: error.message });
+        const client = await this.clientForSession(download.sessionId);
+        const stream = await client.downloadAttachment(download.url);
+        res.setHeader('Content-Type', download.mimeType);
+        res.setHeader('Content-Disposition', `attachment; filename="${download.name.replace(/["\\\r\n]/g, '_')}"`);
+        // A reset from Salesforce mid-download must end this response, not the process
+        pipeline(stream, res, (error) => {
+          if (error) {
+            console.error('Attachment download failed:', error.message);
+            res.destroy(error);
+          }
+        });
+      } catch (error) {
+        sendRestError(res, error, '/api/attachment');
       }
     });
 
-    app.post('/api/send-message', async (req, res) => {
+    // Transcript download: POST with session/conversation/format (widget), or GET with a signed link (tool result)
+    const sendTranscript = async (
+      res: express.Response,
+      sessionId: string,
+      conversationId: string,
+      format: TranscriptFormat
+    ) => {
       try {
-        const result = await callMCPToolHandler('send_message', req.body);
-        res.json(result);
-      } catch (error: any) {
-        console.error('Error in /api/send-message:', error);
-        res.status(error.response?.status || 500).json({ error: error.message });
+        const transcript = await this.buildTranscript(sessionId, conversationId, format);
+        res.setHeader('Content-Type', `${transcript.mimeType}${format === 'pdf' ? '' : '; charset=utf-8'}`);
+        res.setHeader('Content-Disposition', `attachment; filename="${transcript.fileName.replace(/["\\\r\n]/g, '_')}"`);
+        res.send(transcript.content);
+      } catch (error) {
+        sendRestError(res, error, '/api/transcript');
       }
-    });
+    };
 
-    app.post('/api/list-conversation-entries', async (req, res) => {
-      try {
-        const result = await callMCPToolHandler('list_conversation_entries', req.body);
-        res.json(result);
-      } catch (error: any) {
-        console.error('Error in /api/list-conversation-entries:', error);
-        res.status(error.response?.status || 500).json({ error: error.message });
+    app.post('/api/transcript', async (req, res) => {
+      const { sessionId, conversationId, format } = req.body || {};
+      if (!sessionId || !conversationId) {
+        return sendRestError(res, new ValidationError('sessionId and conversationId are required', 'INVALID_ARGUMENTS'));
       }
+      await sendTranscript(res, sessionId, conversationId, format || 'pdf');
     });
 
-    app.post('/api/get-conversation-status', async (req, res) => {
-      try {
-        const result = await callMCPToolHandler('get_conversation_routing_status', req.body);
-        res.json(result);
-      } catch (error: any) {
-        console.error('Error in /api/get-conversation-status:', error);
-        res.status(error.response?.status || 500).json({ error: error.message });
+    app.get('/api/transcript', async (req, res) => {
+      const download = verifyDownloadToken(String(req.query.token || ''));
+      if (!download?.transcript) {
+        return sendRestError(res, new AuthError('Download link is invalid or has expired', 'TRANSCRIPT_LINK_EXPIRED', 403));
       }
+      await sendTranscript(res, download.sessionId, download.transcript.conversationId, download.transcript.format as TranscriptFormat);
     });
 
-    app.post('/api/close-conversation', async (req, res) => {
+    // Legacy SSE sessions (following Pizzaz pattern), keyed by the transport's sessionId query parameter
+    const mcpSessions = new Map<string, { server: Server; transport: SSEServerTransport }>();
+    // Lets clients resume a dropped stream with Last-Event-ID
+    const mcpEventStore = new BoundedEventStore();
+
+    // Streamable HTTP transport for an initialize request. Every session gets its own
+    // Server instance with the same handlers as stdio and SSE.
+    const openStreamableSession = async (deploymentName?: string): Promise<StreamableHTTPServerTransport> => {
+      const serverInstance = this.createServerInstance(deploymentName);
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => crypto.randomUUID(),
+        eventStore: mcpEventStore,
+        onsessioninitialized: (sessionId) => {
+          console.error(`Streamable HTTP session ${sessionId}: initialized`);
+          this.streamableSessions.set(sessionId, { transport, lastUsedAt: Date.now(), openRequests: 0 });
+        }
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          console.error(`Streamable HTTP session ${transport.sessionId}: closed`);
+          this.streamableSessions.delete(transport.sessionId);
+        }
+      };
+      transport.onerror = (error: any) => {
+        console.error(`Streamable HTTP session ${transport.sessionId || '(new)'}: transport error:`, error);
+      };
+      await serverInstance.connect(transport);
+      return transport;
+    };
+
+    const mcpSessionIdOf = (req: express.Request): string | undefined => {
+      const header = req.headers['mcp-session-id'];
+      return Array.isArray(header) ? header[0] : header;
+    };
+
+    // The session's transport, counted as in use until the response ends
+    const useStreamableSession = (sessionId: string, res: express.Response): StreamableHTTPServerTransport | undefined => {
+      const entry = this.streamableSessions.get(sessionId);
+      if (!entry) return undefined;
+      entry.openRequests++;
+      entry.lastUsedAt = Date.now();
+      res.on('close', () => {
+        entry.openRequests--;
+        entry.lastUsedAt = Date.now();
+      });
+      return entry.transport;
+    };
+
+    const sendJsonRpcError = (res: express.Response, status: number, code: number, message: string) => {
+      res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+    };
+
+    // Every MCP endpoint is also served per deployment, for clients that cannot send an API key header
+    const MCP_PATHS = ['/mcp', '/deployments/:deployment/mcp'];
+
+    // Deployment named in the endpoint path; null (after a 404) if it is not configured
+    const pathDeployment = (req: express.Request, res: express.Response): string | undefined | null => {
+      const name = req.params.deployment;
+      if (name && !deployments.names().includes(name)) {
+        sendJsonRpcError(res, 404, -32001, `Unknown deployment: ${name}`);
+        return null;
+      }
+      return name;
+    };
+
+    // POST /mcp - Streamable HTTP. Initialize opens a session (Mcp-Session-Id in the response);
+    // later requests, notifications and batches carry the header. Clients that call tools
+    // without initializing (older Cursor builds) get a one-shot stateless transport.
+    app.post(MCP_PATHS, async (req, res) => {
+      const deploymentName = pathDeployment(req, res);
+      if (deploymentName === null) return;
+      const sessionId = mcpSessionIdOf(req);
+      console.error(`MCP POST from ${req.ip || 'unknown'} (session: ${sessionId || 'none'}, method: ${Array.isArray(req.body) ? 'batch' : req.body?.method})`);
+      
       try {
-        const result = await callMCPToolHandler('close_conversation', req.body);
-        res.json(result);
-      } catch (error: any) {
-        console.error('Error in /api/close-conversation:', error);
-        res.status(error.response?.status || 500).json({ error: error.message });
+        let transport = sessionId ? useStreamableSession(sessionId, res) : undefined;
+        if (sessionId && !transport) {
+          return sendJsonRpcError(res, 404, -32001, 'Session not found');
+        }
+        
+        if (!transport && isInitializeRequest(req.body)) {
+          transport = await openStreamableSession(deploymentName);
+        } else if (!transport) {
+          const serverInstance = this.createServerInstance(deploymentName);
+          const statelessTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: undefined,
+            enableJsonResponse: true
+          });
+          res.on('close', () => {
+            void statelessTransport.close();
+            void serverInstance.close();
+          });
+          await serverInstance.connect(statelessTransport);
+          transport = statelessTransport;
+        }
+        
+        await transport.handleRequest(req, res, req.body);
+      } catch (error) {
+        console.error('Error handling MCP POST:', error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
       }
     });
 
-    // Store active MCP server instances and transports (following Pizzaz pattern)
-    const mcpSessions = new Map<string, { server: Server; transport: SSEServerTransport }>();
-
-    // MCP endpoint - GET establishes SSE connection (ChatGPT connector)
-    app.get('/mcp', async (req, res) => {
+    // GET /mcp - with Mcp-Session-Id: the Streamable HTTP stream for server-initiated
+    // notifications (resumable with Last-Event-ID). Without it: legacy SSE (ChatGPT connector).
+    app.get(MCP_PATHS, async (req, res) => {
+      const deploymentName = pathDeployment(req, res);
+      if (deploymentName === null) return;
+      const streamableSessionId = mcpSessionIdOf(req);
+      if (streamableSessionId) {
+        const transport = useStreamableSession(streamableSessionId, res);
+        if (!transport) {
+          return sendJsonRpcError(res, 404, -32001, 'Session not found');
+        }
+        try {
+          await transport.handleRequest(req, res);
+        } catch (error) {
+          console.error(`Streamable HTTP session ${streamableSessionId}: GET failed:`, error);
+          if (!res.headersSent) {
+            sendJsonRpcError(res, 500, -32603, 'Internal server error');
+          }
+        }
+        return;
+      }
+      
       console.error(`MCP GET (SSE) request from ${req.ip || 'unknown'}`);
       console.error(`User-Agent: ${req.headers['user-agent'] || 'unknown'}`);
       
       try {
         // Create a new server instance for this session
-        const serverInstance = this.createServerInstance();
+        const serverInstance = this.createServerInstance(deploymentName);
         
         // Create SSE transport - first param is the POST message endpoint path
         const transport = new SSEServerTransport('/mcp/messages', res);
@@ -1945,200 +3110,31 @@ class MIAWMCPServer {
       }
     });
 
-    // POST for stateless HTTP JSON-RPC (what Cursor actually uses!)
-    app.post('/mcp', async (req, res) => {
-      console.error(`MCP POST (JSON-RPC) request from ${req.ip || 'unknown'}`);
-      console.error(`User-Agent: ${req.headers['user-agent'] || 'unknown'}`);
-      console.error(`Method: ${req.body?.method}, ID: ${req.body?.id}`);
-      
-      try {
-        const jsonrpcRequest = req.body;
-        
-        // Validate JSON-RPC request
-        if (!jsonrpcRequest || jsonrpcRequest.jsonrpc !== '2.0') {
-          return res.status(400).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32600,
-              message: 'Invalid Request: Not a valid JSON-RPC 2.0 request'
-            },
-            id: null
-          });
-        }
-
-        // Create a new MIAWClient for this request (stateless)
-        const client = new MIAWClient({
-          scrtUrl: process.env.MIAW_SCRT_URL!,
-          orgId: process.env.MIAW_ORG_ID!,
-          esDeveloperName: process.env.MIAW_ES_DEVELOPER_NAME!
-        });
-
-        // Handle different JSON-RPC methods
-        let result: any;
-        
-        switch (jsonrpcRequest.method) {
-          case 'initialize':
-            result = {
-              protocolVersion: '2024-11-05',
-              capabilities: {
-                tools: {}
-              },
-              serverInfo: {
-                name: 'miaw-mcp-server',
-                version: '1.0.0',
-                instructions: 'CRITICAL RULES: 1) Reply VERBATIM with Chatbot messages - no commentary. 2) ONLY call show_salesforce_chat when _roleInfo.isLiveAgent=true AND mostRecentSenderRole="Agent". NEVER call it for Chatbot messages. The chat widget is ONLY for human agents, not AI chatbots.'
-              }
-            };
-            break;
-
-          case 'tools/list':
-            result = {
-              tools: this.getTools()
-            };
-            break;
-
-          case 'tools/call':
-            const toolName = jsonrpcRequest.params?.name;
-            const toolArgs = jsonrpcRequest.params?.arguments || {};
-            
-            if (!toolName) {
-              throw new Error('Tool name is required');
-            }
-
-            const toolResult = await this.handleToolCall(client, toolName, toolArgs);
-            result = toolResult;
-            break;
-
-          case 'resources/list':
-            result = {
-              resources: [
-                {
-                  uri: salesforceChatWidget.templateUri,
-                  name: salesforceChatWidget.title,
-                  description: `${salesforceChatWidget.title} widget markup`,
-                  mimeType: 'text/html+skybridge',
-                  _meta: widgetDescriptorMeta(salesforceChatWidget)
-                }
-              ]
-            };
-            break;
-
-          case 'resources/read':
-            const resourceUri = jsonrpcRequest.params?.uri;
-            console.error('POST /mcp resources/read request for:', resourceUri);
-            
-            if (resourceUri === salesforceChatWidget.templateUri) {
-              if (!salesforceChatWidget.html) {
-                throw new Error('Widget HTML not loaded');
-              }
-              console.error('Returning widget HTML (' + salesforceChatWidget.html.length + ' bytes)');
-              result = {
-                contents: [
-                  {
-                    uri: salesforceChatWidget.templateUri,
-                    mimeType: 'text/html+skybridge',
-                    text: salesforceChatWidget.html,
-                    _meta: widgetDescriptorMeta(salesforceChatWidget)
-                  }
-                ]
-              };
-            } else {
-              throw new Error(`Unknown resource: ${resourceUri}`);
-            }
-            break;
-
-          case 'resources/templates/list':
-            result = {
-              resourceTemplates: [
-                {
-                  uriTemplate: salesforceChatWidget.templateUri,
-                  name: salesforceChatWidget.title,
-                  description: `${salesforceChatWidget.title} widget markup`,
-                  mimeType: 'text/html+skybridge',
-                  _meta: widgetDescriptorMeta(salesforceChatWidget)
-                }
-              ]
-            };
-            break;
-
-          default:
-            return res.status(200).json({
-              jsonrpc: '2.0',
-              error: {
-                code: -32601,
-                message: `Method not found: ${jsonrpcRequest.method}`
-              },
-              id: jsonrpcRequest.id
-            });
-        }
-
-        // Send successful response
-        res.status(200).json({
-          jsonrpc: '2.0',
-          result: result,
-          id: jsonrpcRequest.id
-        });
-
-      } catch (error) {
-        console.error('Error handling JSON-RPC request:', error);
-        
-        // Handle Axios errors (API errors)
-        if (axios.isAxiosError(error)) {
-          const axiosError = error as AxiosError<types.ErrorResponse>;
-          const apiError = axiosError.response?.data?.error;
-          
-          console.error('MIAW API Error:', {
-            status: axiosError.response?.status,
-            message: apiError?.message || axiosError.message,
-            code: apiError?.code,
-            details: apiError?.details
-          });
-          
-          res.status(200).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32603,
-              message: apiError?.message || axiosError.message || 'API request failed',
-              data: {
-                httpStatus: axiosError.response?.status,
-                errorCode: apiError?.code,
-                errorMessage: apiError?.message,
-                details: apiError?.details,
-                url: axiosError.config?.url
-              }
-            },
-            id: req.body?.id || null
-          });
-        } else {
-          // Handle other errors
-          res.status(200).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32603,
-              message: error instanceof Error ? error.message : 'Internal error',
-              data: {
-                errorType: error instanceof Error ? error.constructor.name : 'Unknown',
-                errorMessage: error instanceof Error ? error.message : String(error)
-              }
-            },
-            id: req.body?.id || null
-          });
-        }
-      }
-    });
-
     // OPTIONS and HEAD for CORS
-    app.options('/mcp', (_req, res) => {
+    app.options(MCP_PATHS, (_req, res) => {
       res.status(204).end();
     });
 
-    app.head('/mcp', (_req, res) => {
+    app.head(MCP_PATHS, (_req, res) => {
       res.status(200).end();
     });
 
-    app.delete('/mcp', (_req, res) => {
-      console.error('MCP DELETE request - closing session');
-      res.status(200).json({ success: true });
+    // DELETE /mcp - client ends its Streamable HTTP session
+    app.delete(MCP_PATHS, async (req, res) => {
+      const sessionId = mcpSessionIdOf(req);
+      const transport = sessionId ? useStreamableSession(sessionId, res) : undefined;
+      if (!transport) {
+        return sendJsonRpcError(res, sessionId ? 404 : 400, -32001, sessionId ? 'Session not found' : 'Mcp-Session-Id header is required');
+      }
+      console.error(`Streamable HTTP session ${sessionId}: DELETE - closing`);
+      try {
+        await transport.handleRequest(req, res);
+      } catch (error) {
+        console.error(`Streamable HTTP session ${sessionId}: DELETE failed:`, error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      }
     });
 
     // Legacy SSE endpoint (kept for backwards compatibility)
@@ -2162,11 +3158,17 @@ class MIAWMCPServer {
       }
     });
 
-    // Start HTTP server
-    app.listen(port, () => {
+    return app;
+  }
+
+  /**
+   * Start the MCP server in HTTP/SSE mode (hosted)
+   */
+  async startHttp(port: number = 3000) {
+    this.createHttpApp().listen(port, () => {
       console.error(`MIAW MCP Server running on HTTP port ${port}`);
       console.error(`Health check: http://localhost:${port}/health`);
-      console.error(`MCP endpoint: http://localhost:${port}/mcp (POST)`);
+      console.error(`MCP endpoint: http://localhost:${port}/mcp (Streamable HTTP; GET without Mcp-Session-Id = legacy SSE)`);
       console.error(`Legacy SSE endpoint: http://localhost:${port}/sse (GET)`);
     });
   }
@@ -2175,23 +3177,35 @@ class MIAWMCPServer {
    * Start the server based on environment
    */
   async start() {
-    const mode = process.env.MCP_TRANSPORT || 'stdio';
-    const port = parseInt(process.env.PORT || '3000', 10);
+    this.startSessionReaper();
 
-    if (mode === 'http' || process.env.PORT) {
+    if (config.transport === 'http') {
       // HTTP/SSE mode (for hosted deployment like Heroku)
-      await this.startHttp(port);
+      await this.startHttp(config.port);
     } else {
       // stdio mode (for local Claude Desktop integration)
       await this.startStdio();
     }
   }
+
+  /**
+   * Stop the reaper, close Streamable HTTP sessions and every session's event stream
+   */
+  async stop() {
+    clearInterval(this.reaperTimer);
+    await Promise.all(Array.from(this.streamableSessions.values()).map((entry) => entry.transport.close()));
+    for (const sessionId of Array.from(this.sessionClients.keys())) {
+      this.releaseClient(sessionId);
+    }
+  }
 }
 
 // Start the server
-const server = new MIAWMCPServer();
-server.start().catch((error) => {
-  console.error('Fatal error starting server:', error);
-  process.exit(1);
-});
+if (isMainModule) {
+  const server = new MIAWMCPServer();
+  server.start().catch((error) => {
+    console.error('Fatal error starting server:', error);
+    process.exit(1);
+  });
+}
 
@@ -0,0 +1,52 @@
+/**
+ * Event store for resumable MCP Streamable HTTP streams
+ *
+ * The transport stores every message it sends on an SSE stream here. A
+ * client that reconnects with Last-Event-ID gets whatever it missed on that
+ * stream replayed. Only the most recent events are kept, so a long-running
+ * server does not grow without bound; a client that was away longer than
+ * that simply resumes without replay.
+ */
+
+import type { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+export class BoundedEventStore implements EventStore {
+  // Map iteration order is insertion order, i.e. oldest first
+  private events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+  private sequence = 0;
+
+  constructor(private maxEvents: number = 1000) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${++this.sequence}`;
+    this.events.set(eventId, { streamId, message });
+    if (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest !== undefined) this.events.delete(oldest);
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) {
+      return '';
+    }
+
+    let replaying = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        replaying = true;
+        continue;
+      }
+      if (replaying && event.streamId === last.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+    return last.streamId;
+  }
+}
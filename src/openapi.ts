@@ -0,0 +1,114 @@
+/**
+ * OpenAPI document for the REST API, generated from the tool registry
+ *
+ * Every tool is served as POST /api/{tool name} with the tool's inputSchema
+ * as the request body and its outputSchema as the response, so the document
+ * ChatGPT Actions and SDK generators import can't drift from MIAW_TOOLS.
+ */
+
+export const OPENAPI_VERSION = '3.1.0';
+
+/**
+ * REST path of a tool
+ */
+export function toolRestPath(toolName: string): string {
+  return `/api/${toolName}`;
+}
+
+/**
+ * generate_guest_access_token -> generateGuestAccessToken
+ */
+function operationIdFor(toolName: string): string {
+  return toolName.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function jsonContent(schema: Record<string, any>) {
+  return { 'application/json': { schema } };
+}
+
+function toolOperation(tool: any): Record<string, any> {
+  const operation: Record<string, any> = {
+    operationId: operationIdFor(tool.name),
+    summary: tool.title || tool.name,
+    description: tool.description,
+    requestBody: {
+      required: (tool.inputSchema.required || []).length > 0,
+      content: jsonContent(tool.inputSchema)
+    },
+    responses: {
+      '200': {
+        description: `${tool.title || tool.name} result`,
+        content: jsonContent(tool.outputSchema || { type: 'object' })
+      },
+      '400': { $ref: '#/components/responses/InvalidRequest' },
+      '410': { $ref: '#/components/responses/SessionExpired' },
+      default: { $ref: '#/components/responses/Error' }
+    },
+    // Only destructive tools (ending the chat) ask the user to confirm
+    'x-openai-isConsequential': !!tool.annotations?.destructiveHint
+  };
+  if (tool._meta?.['openai/toolInvocation/invoking']) {
+    operation['x-openai-invoking-message'] = tool._meta['openai/toolInvocation/invoking'];
+  }
+  if (tool._meta?.['openai/toolInvocation/invoked']) {
+    operation['x-openai-invoked-message'] = tool._meta['openai/toolInvocation/invoked'];
+  }
+  return operation;
+}
+
+/**
+ * OpenAPI 3.1 document for the given tools, served from serverUrl
+ */
+export function buildOpenApiDocument(tools: any[], serverUrl: string, version: string): Record<string, any> {
+  const paths: Record<string, any> = {};
+  for (const tool of tools) {
+    paths[toolRestPath(tool.name)] = { post: toolOperation(tool) };
+  }
+
+  const errorResponse = (description: string) => ({
+    description,
+    content: jsonContent({ $ref: '#/components/schemas/Error' })
+  });
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'Salesforce',
+      description: 'Connect with Salesforce agents for customer support',
+      version,
+      contact: { name: 'Salesforce Support', url: serverUrl },
+      'x-legal': { name: 'Privacy Policy', url: `${serverUrl}/privacy-policy` }
+    },
+    servers: [{ url: serverUrl, description: 'Salesforce' }],
+    paths,
+    components: {
+      schemas: {
+        Error: {
+          type: 'object',
+          description: 'Body of every failed call. Over MCP the same body is the text of an isError tool result, except INVALID_ARGUMENTS, which is a JSON-RPC InvalidParams (-32602) error with code and problems in its data.',
+          properties: {
+            error: { type: 'string', description: 'What went wrong' },
+            code: { type: 'string', description: 'Stable error code (e.g. INVALID_ARGUMENTS, SESSION_EXPIRED, RATE_LIMITED)' },
+            category: {
+              type: 'string',
+              enum: ['auth', 'session', 'rate_limit', 'routing', 'validation', 'upstream', 'config', 'internal']
+            },
+            message: { type: 'string' },
+            retryable: { type: 'boolean', description: 'True if the same call may succeed if retried unchanged' },
+            retryAfterSeconds: { type: 'number', description: 'How long to wait before retrying, when known (also sent as Retry-After)' },
+            details: {
+              type: 'object',
+              description: 'Extra context, e.g. problems (each argument that failed validation) or the Salesforce status and error code'
+            }
+          },
+          required: ['error', 'code', 'category', 'retryable']
+        }
+      },
+      responses: {
+        InvalidRequest: errorResponse('The arguments do not match the tool\'s input schema'),
+        SessionExpired: errorResponse('The session has expired; generate a new one'),
+        Error: errorResponse('Salesforce or the server returned an error; see category and retryable')
+      }
+    }
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Pre-chat form support
+ *
+ * The Embedded Service deployment defines visible and hidden pre-chat fields.
+ * We read them from the deployment configuration, expose them on the
+ * create_conversation input schema, validate what the caller supplies and
+ * map the values into routingAttributes (the only pre-chat channel the
+ * create-conversation endpoint accepts).
+ */
+
+import * as types from './types.js';
+import { PrechatValidationError } from './errors.js';
+
+export interface PrechatField {
+  name: string;
+  label: string;
+  type: string;
+  required: boolean;
+  hidden: boolean;
+  maxLength?: number;
+  choices?: string[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^[+()\-.\s\d]{5,}$/;
+
+/**
+ * Pull the pre-chat fields out of a deployment configuration
+ */
+export function extractPrechatFields(configuration?: types.EmbeddedServiceConfiguration | null): PrechatField[] {
+  const form = configuration?.forms?.find((f) => f.formType === 'PreChat');
+  if (!form) {
+    return [];
+  }
+
+  const choiceLists = new Map<string, string[]>();
+  for (const list of configuration?.choiceListConfig?.choiceList || []) {
+    choiceLists.set(
+      list.choiceListId,
+      (list.choiceListValues || [])
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+        .map((v) => v.choiceListValueName)
+    );
+  }
+
+  const toField = (field: types.PrechatFormField, hidden: boolean): PrechatField => ({
+    name: field.name,
+    label: field.label || field.name,
+    type: field.type || 'Text',
+    // Hidden fields are filled by the integration, never required from the user
+    required: !hidden && !!field.required,
+    hidden: hidden || !!field.isHidden,
+    maxLength: field.maxLength,
+    choices: field.choiceListId ? choiceLists.get(field.choiceListId) : undefined
+  });
+
+  return [
+    ...[...(form.formFields || [])]
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map((f) => toField(f, false)),
+    ...(form.hiddenFormFields || []).map((f) => toField(f, true))
+  ];
+}
+
+/**
+ * JSON Schema for the create_conversation `prechatFields` argument
+ */
+export function prechatInputSchema(fields: PrechatField[]): Record<string, any> {
+  const properties: Record<string, any> = {};
+  for (const field of fields) {
+    const property: Record<string, any> = {
+      type: field.type === 'Number' ? 'number' : field.type === 'Checkbox' ? 'boolean' : 'string',
+      description: `${field.label}${field.hidden ? ' (hidden from the customer, shown to the agent)' : ''}`
+    };
+    if (field.maxLength) property.maxLength = field.maxLength;
+    if (field.choices?.length) property.enum = field.choices;
+    if (field.type === 'Email') property.format = 'email';
+    properties[field.name] = property;
+  }
+
+  return {
+    type: 'object',
+    description: 'Pre-chat form values keyed by field name. Ask the user for required fields before creating the conversation.',
+    properties,
+    required: fields.filter((f) => f.required).map((f) => f.name),
+    additionalProperties: false
+  };
+}
+
+/**
+ * Validate supplied values and map them into routingAttributes.
+ * Accepts either a { name: value } map or the legacy prechatDetails array.
+ */
+export function buildPrechatRoutingAttributes(
+  fields: PrechatField[],
+  prechatFields?: Record<string, any>,
+  prechatDetails?: Array<{ name?: string; value?: any }>
+): Record<string, any> {
+  const values: Record<string, any> = { ...(prechatFields || {}) };
+  for (const detail of prechatDetails || []) {
+    if (detail?.name && values[detail.name] === undefined) {
+      values[detail.name] = detail.value;
+    }
+  }
+
+  // Deployment has no pre-chat form: pass values through unchanged
+  if (fields.length === 0) {
+    return values;
+  }
+
+  const errors: string[] = [];
+  const byName = new Map(fields.map((f) => [f.name, f]));
+
+  for (const name of Object.keys(values)) {
+    if (!byName.has(name)) {
+      errors.push(`${name}: not a pre-chat field of this deployment`);
+    }
+  }
+
+  const routingAttributes: Record<string, any> = {};
+  for (const field of fields) {
+    const raw = values[field.name];
+    const missing = raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '');
+    if (missing) {
+      if (field.required) errors.push(`${field.name}: ${field.label} is required`);
+      continue;
+    }
+
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+    if (field.maxLength && String(value).length > field.maxLength) {
+      errors.push(`${field.name}: must be at most ${field.maxLength} characters`);
+    }
+    if (field.type === 'Email' && !EMAIL_PATTERN.test(String(value))) {
+      errors.push(`${field.name}: must be a valid email address`);
+    }
+    if (field.type === 'Phone' && !PHONE_PATTERN.test(String(value))) {
+      errors.push(`${field.name}: must be a valid phone number`);
+    }
+    if (field.type === 'Number' && Number.isNaN(Number(value))) {
+      errors.push(`${field.name}: must be a number`);
+    }
+    if (field.choices?.length && !field.choices.includes(String(value))) {
+      errors.push(`${field.name}: must be one of ${field.choices.join(', ')}`);
+    }
+    routingAttributes[field.name] = value;
+  }
+
+  if (errors.length > 0) {
+    throw new PrechatValidationError(errors);
+  }
+  return routingAttributes;
+}
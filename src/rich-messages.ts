@@ -0,0 +1,145 @@
+/**
+ * Rich MIAW message types
+ *
+ * Einstein bots and agents send more than StaticContentMessage text: choice
+ * lists (buttons, quick replies, carousels), forms, and the end user's
+ * choice responses. This module turns any message entry's abstractMessage
+ * into one normalized RichContent shape with a plain-text summary, so the
+ * LLM and widget never see an empty string for a button list.
+ */
+
+import * as types from './types.js';
+
+export interface RichOption {
+  optionId: string;
+  title: string;
+  subtitle?: string;
+  imageUrl?: string;
+}
+
+export interface RichFormField {
+  name: string;
+  label: string;
+  type: string;
+  required: boolean;
+}
+
+export interface RichContent {
+  kind: 'text' | 'choices' | 'form' | 'choicesResponse' | 'formResponse' | 'unknown';
+  /** Human-readable summary (safe to show verbatim) */
+  text: string;
+  /** Choices: the question shown above the options */
+  prompt?: string;
+  /** Buttons, QuickReplies, Carousel, Inputs, ... */
+  format?: string;
+  options?: RichOption[];
+  form?: { title?: string; fields: RichFormField[] };
+  selected?: RichOption[];
+}
+
+function titleOf(item: any): string {
+  return item?.titleItem?.title || item?.title || item?.optionValue || item?.optionIdentifier || '';
+}
+
+function toOption(item: any): RichOption | null {
+  const optionId = item?.optionIdentifier;
+  if (!optionId) return null;
+  return {
+    optionId,
+    title: titleOf(item),
+    subtitle: item?.titleItem?.subTitle || item?.subTitle,
+    imageUrl: item?.imageItem?.assetUrl || item?.imageItem?.url
+  };
+}
+
+function parseChoices(choices: types.ChoicesContent): RichContent {
+  const options: RichOption[] = [];
+  for (const item of choices.optionItems || []) {
+    const option = toOption(item);
+    if (option) options.push(option);
+  }
+  // Carousels nest their buttons inside each card
+  for (const card of choices.items || []) {
+    for (const interaction of card.interactionItems || []) {
+      const option = toOption(interaction);
+      if (option) {
+        options.push({
+          ...option,
+          subtitle: option.subtitle || card.titleItem?.title,
+          imageUrl: option.imageUrl || card.imageItem?.assetUrl
+        });
+      }
+    }
+  }
+
+  const prompt = choices.text || choices.titleItem?.title || '';
+  const list = options.map((o, i) => `${i + 1}. ${o.title}`).join('\n');
+  return {
+    kind: 'choices',
+    format: choices.formatType,
+    prompt,
+    options,
+    text: [prompt, list].filter(Boolean).join('\n')
+  };
+}
+
+function parseForm(form: types.FormContent): RichContent {
+  const fields: RichFormField[] = [];
+  for (const section of form.sections || []) {
+    for (const input of section.inputs || section.fields || []) {
+      fields.push({
+        name: input.name || input.id || '',
+        label: input.label || input.labelItem?.title || input.name || '',
+        type: input.type || input.inputType || 'Text',
+        required: !!input.required
+      });
+    }
+  }
+  const title = form.titleItem?.title || form.text;
+  return {
+    kind: 'form',
+    format: form.formatType,
+    form: { title, fields },
+    text: [title, fields.map((f) => `- ${f.label}${f.required ? ' (required)' : ''}`).join('\n')]
+      .filter(Boolean)
+      .join('\n')
+  };
+}
+
+/**
+ * Normalize a MIAW message entry into RichContent. Returns null for non-message entries.
+ */
+export function parseRichContent(entry: any): RichContent | null {
+  if (entry?.entryType !== 'Message') {
+    return null;
+  }
+  const message: types.AbstractMessage | undefined = entry.entryPayload?.abstractMessage;
+  if (!message) {
+    return { kind: 'unknown', text: '' };
+  }
+
+  switch (message.messageType) {
+    case 'ChoicesMessage':
+      return message.choices ? parseChoices(message.choices) : { kind: 'choices', text: '', options: [] };
+
+    case 'FormMessage':
+      return message.form ? parseForm(message.form) : { kind: 'form', text: '', form: { fields: [] } };
+
+    case 'ChoicesResponseMessage': {
+      const selected = (message.choicesResponse?.selectedOptions || [])
+        .map((o) => ({ optionId: o.optionIdentifier, title: titleOf(o) }));
+      return { kind: 'choicesResponse', selected, text: selected.map((o) => o.title).join(', ') };
+    }
+
+    case 'FormResponseMessage':
+      return { kind: 'formResponse', text: message.formResponse?.text || 'Form submitted' };
+
+    case 'StaticContentMessage':
+    default:
+      return {
+        kind: message.messageType === 'StaticContentMessage' || message.staticContent ? 'text' : 'unknown',
+        format: message.staticContent?.formatType,
+        text: message.staticContent?.text || ''
+      };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * JSON Schema validation for tool calls
+ *
+ * Every tool call is checked against the tool's inputSchema before it runs,
+ * whichever transport it came in on, and its result against outputSchema.
+ * Compiled validators are cached by schema, since getTools() can hand out
+ * fresh copies of the same schema on every call.
+ */
+
+import { Ajv, ErrorObject, ValidateFunction } from 'ajv';
+
+// strict: false - tool schemas carry descriptions and vendor keys Ajv does not know
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators = new Map<string, ValidateFunction>();
+
+function validatorFor(schema: Record<string, any>): ValidateFunction {
+  const key = JSON.stringify(schema);
+  let validate = validators.get(key);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(key, validate);
+  }
+  return validate;
+}
+
+function describeError(error: ErrorObject): string {
+  const at = error.instancePath ? error.instancePath.substring(1).replace(/\//g, '.') : 'arguments';
+  if (error.keyword === 'additionalProperties') {
+    return `${at}: unknown property "${error.params.additionalProperty}"`;
+  }
+  if (error.keyword === 'required') {
+    return `${at}: missing required property "${error.params.missingProperty}"`;
+  }
+  if (error.keyword === 'enum') {
+    return `${at}: must be one of ${error.params.allowedValues.join(', ')}`;
+  }
+  return `${at}: ${error.message}`;
+}
+
+/**
+ * Problems with a value against a JSON Schema (empty when it is valid)
+ */
+export function schemaProblems(schema: Record<string, any>, value: unknown): string[] {
+  const validate = validatorFor(schema);
+  return validate(value) ? [] : (validate.errors || []).map(describeError);
+}
@@ -0,0 +1,368 @@
+/**
+ * Pluggable session storage
+ *
+ * Maps our opaque sessionId to the Salesforce access token (and current
+ * conversation), and holds short-lived markers such as the duplicate-message
+ * guard so every dyno sees them. The backend is selected with MIAW_SESSION_STORE:
+ *   - memory (default): process-local Map, lost on restart
+ *   - file: JSON file on disk (MIAW_SESSION_FILE)
+ *   - redis: any Redis-protocol server (REDIS_URL)
+ *
+ * Persistent backends encrypt access tokens with MIAW_SESSION_ENCRYPTION_KEY.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Redis } from 'ioredis';
+
+export interface SessionData {
+  accessToken: string;
+  conversationId?: string;
+  /** Name of the deployment the session was created in (absent = default) */
+  deployment?: string;
+  /** Customer identity (JWT subject) for verified sessions; absent for guests */
+  subject?: string;
+  /** Caller-chosen key identifying the user across sessions (for resume_conversation) */
+  userKey?: string;
+  /** SHA-256 of the resumeToken handed out with the session; resuming by userKey must present it */
+  resumeTokenHash?: string;
+  /** Read cursors by consumer (list_conversation_entries cursorId): the newest entry returned to each */
+  readCursors?: Record<string, { entryId: string; timestamp: number }>;
+  /** Epoch ms when the Salesforce access token expires */
+  tokenExpiresAt?: number;
+  /** Epoch ms of the last tool call that used this session (sliding idle TTL) */
+  lastActivityAt?: number;
+  /** Epoch ms when the conversation was closed */
+  closedAt?: number;
+  /** Epoch ms when the reaper revoked the token; the record is kept briefly as a tombstone */
+  expiredAt?: number;
+  expiredReason?: string;
+}
+
+export interface SessionStore {
+  get(sessionId: string): Promise<SessionData | undefined>;
+  set(sessionId: string, data: SessionData): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  keys(): Promise<string[]>;
+  /**
+   * The session most recently stored for a user key. Callers still check that
+   * it is live and that it really carries that key.
+   */
+  findByUserKey(userKey: string): Promise<string | undefined>;
+  /**
+   * Take a short-lived marker (e.g. "this message was just sent"). Resolves
+   * false if it is already held and has not expired, so only one caller wins.
+   */
+  claim(key: string, ttlMs: number): Promise<boolean>;
+  /** Give a marker back before it expires */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * userKey -> sessionId kept in process - for the backends that only run on one host
+ */
+class LocalUserKeyIndex {
+  private sessionIds = new Map<string, string>();
+
+  update(sessionId: string, data: SessionData): void {
+    if (data.userKey && !data.expiredAt) this.sessionIds.set(data.userKey, sessionId);
+  }
+
+  remove(sessionId: string, data: SessionData | undefined): void {
+    if (data?.userKey && this.sessionIds.get(data.userKey) === sessionId) this.sessionIds.delete(data.userKey);
+  }
+
+  find(userKey: string): string | undefined {
+    return this.sessionIds.get(userKey);
+  }
+}
+
+/**
+ * Expiring markers kept in process - for the backends that only run on one host
+ */
+class LocalClaims {
+  private expiries = new Map<string, number>();
+
+  claim(key: string, ttlMs: number): boolean {
+    const now = Date.now();
+    for (const [held, expiresAt] of this.expiries) {
+      if (expiresAt <= now) this.expiries.delete(held);
+    }
+    if (this.expiries.has(key)) return false;
+    this.expiries.set(key, now + ttlMs);
+    return true;
+  }
+
+  release(key: string): void {
+    this.expiries.delete(key);
+  }
+}
+
+/**
+ * AES-256-GCM encryption for tokens at rest
+ */
+export class TokenCipher {
+  private key: Buffer;
+
+  constructor(secret: string) {
+    // Accept any string; hash it down to a 256-bit key
+    this.key = crypto.createHash('sha256').update(secret).digest();
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return ['v1', iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+  }
+
+  decrypt(encoded: string): string {
+    const [version, iv, tag, ciphertext] = encoded.split(':');
+    if (version !== 'v1' || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Unrecognized encrypted token format');
+    }
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final()
+    ]).toString('utf8');
+  }
+
+  seal(data: SessionData): string {
+    return JSON.stringify({ ...data, accessToken: this.encrypt(data.accessToken) });
+  }
+
+  open(serialized: string): SessionData {
+    const record = JSON.parse(serialized);
+    return { ...record, accessToken: this.decrypt(record.accessToken) };
+  }
+}
+
+/**
+ * Process-local store (original behaviour)
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionData>();
+  private userKeys = new LocalUserKeyIndex();
+  private claims = new LocalClaims();
+
+  async get(sessionId: string) {
+    const data = this.sessions.get(sessionId);
+    return data ? { ...data } : undefined;
+  }
+
+  async set(sessionId: string, data: SessionData) {
+    this.sessions.set(sessionId, { ...data });
+    this.userKeys.update(sessionId, data);
+  }
+
+  async delete(sessionId: string) {
+    this.userKeys.remove(sessionId, this.sessions.get(sessionId));
+    this.sessions.delete(sessionId);
+  }
+
+  async keys() {
+    return Array.from(this.sessions.keys());
+  }
+
+  async findByUserKey(userKey: string) {
+    return this.userKeys.find(userKey);
+  }
+
+  async claim(key: string, ttlMs: number) {
+    return this.claims.claim(key, ttlMs);
+  }
+
+  async release(key: string) {
+    this.claims.release(key);
+  }
+}
+
+/**
+ * JSON file store - survives restarts of a single dyno/host
+ */
+export class FileSessionStore implements SessionStore {
+  private records: Record<string, string> = {};
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Rebuilt from the records on startup rather than written to disk
+  private userKeys = new LocalUserKeyIndex();
+  // Markers live seconds, so they are not worth writing to disk
+  private claims = new LocalClaims();
+
+  constructor(private filePath: string, private cipher: TokenCipher) {
+    if (fs.existsSync(filePath)) {
+      try {
+        this.records = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        console.error(`✓ Loaded ${Object.keys(this.records).length} sessions from ${filePath}`);
+      } catch (error) {
+        console.error(`⚠ Warning: Could not read session file ${filePath}, starting empty:`, error);
+      }
+    }
+    for (const sessionId of Object.keys(this.records)) {
+      try {
+        this.userKeys.update(sessionId, this.cipher.open(this.records[sessionId]));
+      } catch {
+        // Undecryptable records are reported when they are read
+      }
+    }
+  }
+
+  async get(sessionId: string) {
+    const record = this.records[sessionId];
+    if (!record) return undefined;
+    try {
+      return this.cipher.open(record);
+    } catch (error) {
+      console.error(`Could not decrypt session ${sessionId} (wrong encryption key?)`);
+      return undefined;
+    }
+  }
+
+  async set(sessionId: string, data: SessionData) {
+    this.records[sessionId] = this.cipher.seal(data);
+    this.userKeys.update(sessionId, data);
+    await this.flush();
+  }
+
+  async delete(sessionId: string) {
+    this.userKeys.remove(sessionId, await this.get(sessionId));
+    delete this.records[sessionId];
+    await this.flush();
+  }
+
+  async keys() {
+    return Object.keys(this.records);
+  }
+
+  async findByUserKey(userKey: string) {
+    return this.userKeys.find(userKey);
+  }
+
+  async claim(key: string, ttlMs: number) {
+    return this.claims.claim(key, ttlMs);
+  }
+
+  async release(key: string) {
+    this.claims.release(key);
+  }
+
+  /**
+   * Serialize writes and replace the file atomically so a crash never leaves it half-written.
+   * A failed write rejects its own caller only; the queue carries on with the next one.
+   */
+  private flush(): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tmpPath, JSON.stringify(this.records), { mode: 0o600 });
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Redis-protocol store - shared by every dyno
+ */
+export class RedisSessionStore implements SessionStore {
+  private static readonly PREFIX = 'miaw:session:';
+  private static readonly CLAIM_PREFIX = 'miaw:claim:';
+  private static readonly USER_KEY_PREFIX = 'miaw:user-key:';
+
+  constructor(private redis: Redis, private cipher: TokenCipher) {}
+
+  async get(sessionId: string) {
+    const record = await this.redis.get(RedisSessionStore.PREFIX + sessionId);
+    if (!record) return undefined;
+    try {
+      return this.cipher.open(record);
+    } catch (error) {
+      console.error(`Could not decrypt session ${sessionId} (wrong encryption key?)`);
+      return undefined;
+    }
+  }
+
+  async set(sessionId: string, data: SessionData) {
+    await this.redis.set(RedisSessionStore.PREFIX + sessionId, this.cipher.seal(data));
+    if (data.userKey && !data.expiredAt) {
+      await this.redis.set(RedisSessionStore.userKeyIndex(data.userKey), sessionId);
+    }
+  }
+
+  async delete(sessionId: string) {
+    const data = await this.get(sessionId);
+    await this.redis.del(RedisSessionStore.PREFIX + sessionId);
+    if (data?.userKey && await this.findByUserKey(data.userKey) === sessionId) {
+      await this.redis.del(RedisSessionStore.userKeyIndex(data.userKey));
+    }
+  }
+
+  async findByUserKey(userKey: string) {
+    return (await this.redis.get(RedisSessionStore.userKeyIndex(userKey))) ?? undefined;
+  }
+
+  // User keys may be e-mail addresses; keep them out of key names
+  private static userKeyIndex(userKey: string): string {
+    return RedisSessionStore.USER_KEY_PREFIX + crypto.createHash('sha256').update(userKey).digest('hex');
+  }
+
+  async keys() {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.redis.scan(cursor, 'MATCH', `${RedisSessionStore.PREFIX}*`, 'COUNT', 100);
+      cursor = next;
+      keys.push(...batch.map((key) => key.substring(RedisSessionStore.PREFIX.length)));
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  async claim(key: string, ttlMs: number) {
+    // SET NX PX is atomic, so two dynos racing for the same marker can't both win
+    return await this.redis.set(RedisSessionStore.CLAIM_PREFIX + key, '1', 'PX', ttlMs, 'NX') === 'OK';
+  }
+
+  async release(key: string) {
+    await this.redis.del(RedisSessionStore.CLAIM_PREFIX + key);
+  }
+}
+
+/**
+ * Build the session store selected by MIAW_SESSION_STORE
+ */
+export function createSessionStore(env: NodeJS.ProcessEnv = process.env): SessionStore {
+  const backend = (env.MIAW_SESSION_STORE || 'memory').toLowerCase();
+
+  if (backend === 'memory') {
+    return new MemorySessionStore();
+  }
+
+  if (!env.MIAW_SESSION_ENCRYPTION_KEY) {
+    throw new Error(`MIAW_SESSION_ENCRYPTION_KEY is required when MIAW_SESSION_STORE=${backend}`);
+  }
+  const cipher = new TokenCipher(env.MIAW_SESSION_ENCRYPTION_KEY);
+
+  if (backend === 'file') {
+    const filePath = path.resolve(env.MIAW_SESSION_FILE || '.miaw-sessions.json');
+    console.error('Using file session store:', filePath);
+    return new FileSessionStore(filePath, cipher);
+  }
+
+  if (backend === 'redis') {
+    const url = env.REDIS_URL || env.REDIS_TLS_URL;
+    if (!url) {
+      throw new Error('REDIS_URL is required when MIAW_SESSION_STORE=redis');
+    }
+    // Heroku Redis uses self-signed certificates on rediss:// URLs
+    const redis = new Redis(url, url.startsWith('rediss://') ? { tls: { rejectUnauthorized: false } } : {});
+    redis.on('error', (error) => console.error('Redis session store error:', error.message));
+    console.error('Using Redis session store');
+    return new RedisSessionStore(redis, cipher);
+  }
+
+  throw new Error(`Unknown MIAW_SESSION_STORE "${backend}" (expected memory, file or redis)`);
+}
@@ -0,0 +1,815 @@
+/**
+ * Local MIAW API simulator
+ *
+ * A stand-in SCRT host for development: it serves the endpoints MIAWClient
+ * calls (access tokens, conversations, messages, entries, routing status, the
+ * deployment configuration and the event router) from memory, with a bot and
+ * an agent that answer from a script instead of a Salesforce org.
+ *
+ *   npm run simulator
+ *   MIAW_SCRT_URL=localhost:4010 MIAW_SCRT_PROTOCOL=http \
+ *   MIAW_ORG_ID=00D000000000000AAA MIAW_ES_DEVELOPER_NAME=Simulator npm start
+ *
+ * The script (MIAW_SIMULATOR_SCRIPT, JSON or YAML) names the personas and
+ * what they say when a conversation starts and when a customer message
+ * matches a rule; steps can also transfer to another persona or close the
+ * conversation. Faults (status codes, Retry-After, slow responses) can be
+ * scripted per path to exercise the retry and circuit-breaker layer.
+ *
+ * /simulator/* lets a test or a developer look at the state, push steps into
+ * a conversation (e.g. an agent reply), add faults and reset everything.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import express, { NextFunction, Request, Response } from 'express';
+import YAML from 'yaml';
+import * as types from './types.js';
+
+export interface SimulatorPersona {
+  role: 'Chatbot' | 'Agent';
+  displayName: string;
+}
+
+/**
+ * One thing the current persona does. "{text}" (the customer's message) and
+ * "{<routing attribute>}" are replaced in say and choices texts.
+ */
+export interface SimulatorStep {
+  /** Send a text message */
+  say?: string;
+  /** Send buttons */
+  choices?: { text: string; options: string[] };
+  /** Hand the conversation to another persona */
+  transfer?: string;
+  /** End the conversation from the agent side */
+  close?: boolean;
+  /** Pause before the step (defaults to replyDelayMs for say and choices) */
+  delayMs?: number;
+}
+
+export interface SimulatorRule {
+  /** Case-insensitive regular expression tested against the customer's message */
+  match: string;
+  /** Only while this persona has the conversation */
+  persona?: string;
+  steps: SimulatorStep[];
+}
+
+export interface SimulatorFault {
+  /** Regular expression tested against the request path */
+  path: string;
+  method?: string;
+  status: number;
+  /** Fail this many requests, then pass (default: every request) */
+  times?: number;
+  /** Sent as Retry-After */
+  retryAfter?: number;
+  /** Wait before answering, to trigger client timeouts */
+  delayMs?: number;
+}
+
+export interface SimulatorScript {
+  personas: Record<string, SimulatorPersona>;
+  /** Persona that picks up new conversations */
+  initialPersona: string;
+  greeting: SimulatorStep[];
+  /** First matching rule wins */
+  rules: SimulatorRule[];
+  /** Steps when no rule matches */
+  fallback: SimulatorStep[];
+  faults: SimulatorFault[];
+  /** Deployment configuration (pre-chat form) served to clients */
+  configuration: types.EmbeddedServiceConfiguration;
+  replyDelayMs: number;
+  tokenTtlSeconds: number;
+  /** Entries per GET /conversation/{id}/entries page */
+  pageSize: number;
+}
+
+export const DEFAULT_SIMULATOR_SCRIPT: SimulatorScript = {
+  personas: {
+    bot: { role: 'Chatbot', displayName: 'Simulator Bot' },
+    agent: { role: 'Agent', displayName: 'Sam (Agent)' }
+  },
+  initialPersona: 'bot',
+  greeting: [
+    { say: 'Hi! I\'m the simulator bot. Say "agent" to talk to a person, "menu" for options or "bye" to finish.' }
+  ],
+  rules: [
+    {
+      match: '\\b(agent|human|person)\\b',
+      persona: 'bot',
+      steps: [
+        { say: 'Let me find someone for you.' },
+        { transfer: 'agent', delayMs: 1000 },
+        { say: 'Hi, this is Sam. How can I help?' }
+      ]
+    },
+    {
+      match: '\\bmenu\\b',
+      steps: [{ choices: { text: 'What can I help you with?', options: ['Billing', 'Shipping', 'Something else'] } }]
+    },
+    {
+      match: '\\b(bye|goodbye)\\b',
+      steps: [{ say: 'Thanks for chatting. Goodbye!' }, { close: true }]
+    }
+  ],
+  fallback: [{ say: 'You said: {text}' }],
+  faults: [],
+  configuration: {
+    name: 'Simulator',
+    forms: [{
+      formType: 'PreChat',
+      displayContext: 'Conversation',
+      formFields: [
+        { name: '_firstName', label: 'First Name', type: 'Text', required: false, maxLength: 40, order: 1 },
+        { name: '_email', label: 'Email', type: 'Email', required: false, maxLength: 80, order: 2 }
+      ],
+      hiddenFormFields: []
+    }]
+  },
+  replyDelayMs: 300,
+  tokenTtlSeconds: 3600,
+  pageSize: 100
+};
+
+interface SimulatedToken {
+  subject: string;
+  expiresAt: number;
+}
+
+interface SimulatedConversation {
+  id: string;
+  subject: string;
+  esDeveloperName: string;
+  routingAttributes: Record<string, any>;
+  entries: any[];
+  /** Key of the persona currently handling it; null once it left */
+  persona: string | null;
+  routingType: 'Initial' | 'Transfer';
+  closed: boolean;
+  acknowledgements: Array<{ type: string; entryId: string }>;
+  createdDate: number;
+  lastModifiedDate: number;
+  /** Steps run one after another so replies never interleave */
+  queue: Promise<void>;
+}
+
+interface StoredFile {
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+interface Subscriber {
+  token: string;
+  subject: string;
+  res: Response;
+  keepAlive: NodeJS.Timeout;
+}
+
+const EVENT_TYPES: Record<string, string> = {
+  Message: 'CONVERSATION_MESSAGE',
+  ParticipantChanged: 'CONVERSATION_PARTICIPANT_CHANGED',
+  RoutingResult: 'CONVERSATION_ROUTING_RESULT',
+  ConversationClose: 'CONVERSATION_CLOSE_CONVERSATION',
+  TypingStartedIndicator: 'CONVERSATION_TYPING_STARTED_INDICATOR',
+  TypingStoppedIndicator: 'CONVERSATION_TYPING_STOPPED_INDICATOR'
+};
+
+const API_PREFIX = '/iamessage/api/v2';
+
+/** Sender of routing entries */
+const SYSTEM = Symbol('system');
+type EntrySender = string | null | typeof SYSTEM;
+
+/**
+ * Read MIAW_SIMULATOR_SCRIPT over the defaults and check that it hangs together
+ */
+export function loadSimulatorScript(env: NodeJS.ProcessEnv = process.env): SimulatorScript {
+  const file = env.MIAW_SIMULATOR_SCRIPT;
+  let document: Partial<SimulatorScript> = {};
+  if (file) {
+    const extension = path.extname(file).toLowerCase();
+    const source = fs.readFileSync(file, 'utf8');
+    document = (extension === '.yaml' || extension === '.yml' ? YAML.parse(source) : JSON.parse(source)) || {};
+  }
+
+  const script: SimulatorScript = { ...DEFAULT_SIMULATOR_SCRIPT, ...document };
+  const problems: string[] = [];
+  if (!script.personas[script.initialPersona]) {
+    problems.push(`initialPersona "${script.initialPersona}" is not a persona`);
+  }
+  const allSteps = [...script.greeting, ...script.fallback, ...script.rules.flatMap((rule) => rule.steps)];
+  for (const step of allSteps) {
+    if (step.transfer && !script.personas[step.transfer]) {
+      problems.push(`transfer target "${step.transfer}" is not a persona`);
+    }
+  }
+  for (const pattern of [...script.rules.map((rule) => rule.match), ...script.faults.map((fault) => fault.path)]) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      problems.push(`"${pattern}" is not a regular expression`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid simulator script${file ? ` ${file}` : ''}: ${problems.join('; ')}`);
+  }
+  return script;
+}
+
+/**
+ * Split a multipart/form-data body into its parts
+ */
+function parseMultipart(body: Buffer, contentType: string): Array<{ name?: string; filename?: string; mimeType?: string; data: Buffer }> {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  if (!match) return [];
+  const delimiter = Buffer.from(`--${match[1] || match[2]}`);
+  const parts = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    // Skip the CRLF after the delimiter and the one before the next
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      parts.push({
+        name: /;\s*name="([^"]*)"/i.exec(headers)?.[1],
+        filename: /;\s*filename="([^"]*)"/i.exec(headers)?.[1],
+        mimeType: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1],
+        data: part.subarray(headerEnd + 4)
+      });
+    }
+    start = next;
+  }
+  return parts;
+}
+
+function sendError(res: Response, status: number, code: string, message: string) {
+  res.status(status).json({ error: { code, message } });
+}
+
+function fill(template: string, values: Record<string, any>): string {
+  return template.replace(/\{([\w.]+)\}/g, (placeholder, key: string) => key in values ? String(values[key] ?? '') : placeholder);
+}
+
+/**
+ * Customer-side text of a message, for matching rules
+ */
+function messageText(message: any): string {
+  const selected = message?.choicesResponse?.selectedOptions?.[0];
+  return message?.staticContent?.text || selected?.title || selected?.optionIdentifier || message?.formResponse?.text || '';
+}
+
+export class MiawSimulator {
+  private tokens = new Map<string, SimulatedToken>();
+  private conversations = new Map<string, SimulatedConversation>();
+  private files = new Map<string, StoredFile>();
+  private subscribers = new Set<Subscriber>();
+  private faults: Array<SimulatorFault & { remaining?: number }> = [];
+  private clock = 0;
+  private eventId = 0;
+
+  constructor(private script: SimulatorScript = DEFAULT_SIMULATOR_SCRIPT) {
+    this.reset();
+  }
+
+  /**
+   * Forget every token, conversation and file; faults go back to the script's
+   */
+  reset(): void {
+    for (const subscriber of this.subscribers) {
+      clearInterval(subscriber.keepAlive);
+      subscriber.res.end();
+    }
+    this.subscribers.clear();
+    this.tokens.clear();
+    this.conversations.clear();
+    this.files.clear();
+    this.faults = this.script.faults.map((fault) => ({ ...fault, remaining: fault.times }));
+  }
+
+  createApp(): express.Express {
+    const app = express();
+    app.use(express.json({ limit: '10mb' }));
+    app.use((req, _res, next) => {
+      console.log(`${req.method} ${req.path}`);
+      next();
+    });
+
+    this.mountControlRoutes(app);
+    app.use((req, res, next) => this.injectFault(req, res, next));
+
+    app.post(`${API_PREFIX}/authorization/unauthenticated/access-token`, (req, res) => {
+      const problem = this.checkTokenRequest(req.body);
+      if (problem) return sendError(res, 400, 'INVALID_REQUEST', problem);
+      res.json(this.issueToken(`guest-${crypto.randomUUID()}`));
+    });
+
+    app.post(`${API_PREFIX}/authorization/authenticated/access-token`, (req, res) => {
+      const problem = this.checkTokenRequest(req.body);
+      if (problem) return sendError(res, 400, 'INVALID_REQUEST', problem);
+      // Signatures are not checked; the subject is all the simulator needs
+      let subject: string | undefined;
+      try {
+        const payload = String(req.body.customerIdentityToken || '').split('.')[1];
+        subject = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')).sub;
+      } catch {
+        subject = undefined;
+      }
+      if (!subject) return sendError(res, 401, 'UNAUTHORIZED', 'customerIdentityToken is not a JWT with a sub claim');
+      res.json(this.issueToken(subject));
+    });
+
+    app.get('/embeddedservice/v1/embedded-service-config', (req, res) => {
+      res.json({ ...this.script.configuration, name: req.query.esConfigName || this.script.configuration.name });
+    });
+
+    app.get('/eventrouter/v1/sse', (req, res) => this.subscribe(req, res));
+
+    // Everything below needs a live access token
+    const authenticate = (req: Request, res: Response, next: NextFunction) => {
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      const session = this.tokens.get(token);
+      if (!session || session.expiresAt < Date.now()) {
+        return sendError(res, 401, 'UNAUTHORIZED', 'Invalid or expired access token');
+      }
+      res.locals.token = token;
+      res.locals.subject = session.subject;
+      next();
+    };
+    const api = express.Router();
+    api.use(authenticate);
+    this.mountConversationRoutes(api);
+    app.use(API_PREFIX, api);
+    app.get('/simulator/files/:fileId', authenticate, (req, res) => {
+      const file = this.files.get(req.params.fileId);
+      if (!file) return sendError(res, 404, 'NOT_FOUND', 'No such file');
+      res.type(file.mimeType).send(file.data);
+    });
+
+    app.use((_req, res) => sendError(res, 404, 'NOT_FOUND', 'The simulator does not implement this endpoint'));
+    return app;
+  }
+
+  private mountConversationRoutes(router: express.Router) {
+    router.get('/authorization/continuation-token', (_req, res) => {
+      res.json(this.issueToken(res.locals.subject));
+    });
+
+    router.delete('/authorization/token', (_req, res) => {
+      this.tokens.delete(res.locals.token);
+      for (const subscriber of this.subscribers) {
+        if (subscriber.token === res.locals.token) this.unsubscribe(subscriber);
+      }
+      res.status(204).end();
+    });
+
+    router.post('/conversation', (req, res) => {
+      const { conversationId, esDeveloperName, routingAttributes } = req.body || {};
+      if (!conversationId || !esDeveloperName) {
+        return sendError(res, 400, 'INVALID_REQUEST', 'conversationId and esDeveloperName are required');
+      }
+      if (this.conversations.has(conversationId)) {
+        return sendError(res, 409, 'CONFLICT', `Conversation ${conversationId} already exists`);
+      }
+      const now = this.now();
+      const conversation: SimulatedConversation = {
+        id: conversationId,
+        subject: res.locals.subject,
+        esDeveloperName,
+        routingAttributes: routingAttributes || {},
+        entries: [],
+        persona: null,
+        routingType: 'Initial',
+        closed: false,
+        acknowledgements: [],
+        createdDate: now,
+        lastModifiedDate: now,
+        queue: Promise.resolve()
+      };
+      this.conversations.set(conversationId, conversation);
+      this.addEntry(conversation, 'RoutingResult', SYSTEM, {
+        routingType: 'Initial',
+        failureType: 'None',
+        estimatedWaitTime: { estimatedWaitTimeInSeconds: 0, positionInQueue: 0 }
+      });
+      this.join(conversation, this.script.initialPersona);
+      this.enqueue(conversation, this.script.greeting, '');
+      res.status(201).json({ conversationId, conversationIdentifier: conversationId });
+    });
+
+    router.delete('/conversation/:conversationId', (req, res) => {
+      const conversation = this.conversationFor(req, res);
+      if (!conversation) return;
+      if (conversation.closed) {
+        return sendError(res, 409, 'CONVERSATION_CLOSED', 'The conversation is already closed');
+      }
+      this.close(conversation, null);
+      res.status(204).end();
+    });
+
+    router.delete('/conversation/:conversationId/session', (req, res) => {
+      const conversation = this.conversationFor(req, res);
+      if (!conversation) return;
+      if (conversation.closed) {
+        return sendError(res, 409, 'CONVERSATION_CLOSED', 'The conversation is already closed');
+      }
+      this.leave(conversation);
+      res.status(204).end();
+    });
+
+    router.post('/conversation/:conversationId/message', (req, res) => {
+      const conversation = this.openConversationFor(req, res);
+      if (!conversation) return;
+      const message = req.body?.message;
+      if (!message?.id || !message?.messageType) {
+        return sendError(res, 400, 'INVALID_REQUEST', 'message.id and message.messageType are required');
+      }
+      const entry = this.addEntry(conversation, 'Message', null, { id: message.id, entryType: 'Message', abstractMessage: message });
+      this.respond(conversation, messageText(message));
+      res.status(202).json({
+        id: message.id,
+        conversationId: conversation.id,
+        entryType: 'Message',
+        timestamp: entry.transcriptedTimestamp,
+        message: { text: messageText(message), messageType: message.messageType }
+      });
+    });
+
+    router.post('/conversation/:conversationId/file', express.raw({ type: 'multipart/form-data', limit: '50mb' }), (req, res) => {
+      const conversation = this.openConversationFor(req, res);
+      if (!conversation) return;
+      const parts = parseMultipart(req.body, req.headers['content-type'] || '');
+      const filePart = parts.find((part) => part.name === 'fileData');
+      const entryPart = parts.find((part) => part.name === 'messageEntry');
+      if (!filePart || !entryPart) {
+        return sendError(res, 400, 'INVALID_REQUEST', 'messageEntry and fileData parts are required');
+      }
+      const message = JSON.parse(entryPart.data.toString('utf8')).message || {};
+      const fileId = message.fileId || crypto.randomUUID();
+      const file = { name: filePart.filename || 'file', mimeType: filePart.mimeType || 'application/octet-stream', data: Buffer.from(filePart.data) };
+      this.files.set(fileId, file);
+      const messageId = message.id || crypto.randomUUID();
+      this.addEntry(conversation, 'Message', null, {
+        id: messageId,
+        entryType: 'Message',
+        abstractMessage: {
+          id: messageId,
+          messageType: 'StaticContentMessage',
+          inReplyToMessageId: message.inReplyToMessageId,
+          staticContent: {
+            formatType: 'Attachments',
+            text: message.text,
+            attachments: [{ id: fileId, name: file.name, mimeType: file.mimeType, url: `${req.protocol}://${req.get('host')}/simulator/files/${fileId}` }]
+          }
+        }
+      });
+      this.respond(conversation, message.text || `[file ${file.name}]`);
+      res.status(202).json({ id: messageId, conversationId: conversation.id, entryType: 'Message', timestamp: this.now() });
+    });
+
+    router.post('/conversation/:conversationId/entry', (req, res) => {
+      const conversation = this.openConversationFor(req, res);
+      if (!conversation) return;
+      const entryType = req.body?.entryType;
+      if (entryType !== 'TypingStartedIndicator' && entryType !== 'TypingStoppedIndicator') {
+        return sendError(res, 400, 'INVALID_REQUEST', 'entryType must be TypingStartedIndicator or TypingStoppedIndicator');
+      }
+      this.publish(conversation, this.entry(conversation, entryType, null, { timestamp: this.now() }));
+      res.status(202).end();
+    });
+
+    router.post('/conversation/:conversationId/acknowledge-entries', (req, res) => {
+      const conversation = this.conversationFor(req, res);
+      if (!conversation) return;
+      for (const ack of req.body?.acknowledgements || []) {
+        conversation.acknowledgements.push({ type: ack.type, entryId: ack.conversationEntryIdentifier });
+      }
+      res.status(202).end();
+    });
+
+    router.get('/conversation/:conversationId/entries', (req, res) => {
+      const conversation = this.conversationFor(req, res);
+      if (!conversation) return;
+      const offset = Number(req.query.continuationToken) || 0;
+      const page = conversation.entries.slice(offset, offset + this.script.pageSize);
+      const next = offset + page.length;
+      res.json({
+        conversationEntries: page,
+        ...(next < conversation.entries.length ? { continuationToken: String(next) } : {})
+      });
+    });
+
+    router.get('/conversations/:conversationId/routing-status', (req, res) => {
+      const conversation = this.conversationFor(req, res);
+      if (!conversation) return;
+      res.json({
+        conversationId: conversation.id,
+        routingResult: {
+          routingType: conversation.routingType,
+          status: conversation.closed ? 'Closed' : conversation.persona ? 'Routed' : 'Waiting',
+          estimatedWaitTime: 0
+        }
+      });
+    });
+
+    router.get('/conversations', (_req, res) => {
+      res.json({
+        conversations: [...this.conversations.values()]
+          .filter((conversation) => conversation.subject === res.locals.subject)
+          .map((conversation) => ({
+            conversationId: conversation.id,
+            conversationIdentifier: conversation.id,
+            status: conversation.closed ? 'Closed' : 'Open',
+            createdDate: conversation.createdDate,
+            lastModifiedDate: conversation.lastModifiedDate
+          }))
+      });
+    });
+
+    router.post('/push-notifications/device', (_req, res) => res.status(202).end());
+    router.delete('/push-notifications/device/:deviceToken', (_req, res) => res.status(204).end());
+  }
+
+  private mountControlRoutes(app: express.Express) {
+    app.get('/simulator/state', (_req, res) => {
+      res.json({
+        tokens: this.tokens.size,
+        subscribers: this.subscribers.size,
+        faults: this.faults,
+        conversations: [...this.conversations.values()].map(({ queue, ...conversation }) => conversation)
+      });
+    });
+
+    // e.g. { "steps": [{ "say": "An agent reply" }, { "close": true }] }
+    app.post('/simulator/conversations/:conversationId/steps', (req, res) => {
+      const conversation = this.conversations.get(req.params.conversationId);
+      if (!conversation) return sendError(res, 404, 'NOT_FOUND', 'No such conversation');
+      const steps: SimulatorStep[] = req.body?.steps || [];
+      const unknown = steps.find((step) => step.transfer && !this.script.personas[step.transfer]);
+      if (unknown) return sendError(res, 400, 'INVALID_REQUEST', `transfer target "${unknown.transfer}" is not a persona`);
+      this.enqueue(conversation, steps, '');
+      res.status(202).json({ queued: steps.length });
+    });
+
+    app.post('/simulator/faults', (req, res) => {
+      const fault: SimulatorFault = req.body;
+      if (!fault?.path || !fault.status) return sendError(res, 400, 'INVALID_REQUEST', 'path and status are required');
+      this.faults.push({ ...fault, remaining: fault.times });
+      res.status(201).json({ faults: this.faults.length });
+    });
+
+    app.delete('/simulator/faults', (_req, res) => {
+      this.faults = [];
+      res.status(204).end();
+    });
+
+    app.post('/simulator/reset', (_req, res) => {
+      this.reset();
+      res.status(204).end();
+    });
+  }
+
+  private injectFault(req: Request, res: Response, next: NextFunction) {
+    const fault = this.faults.find((f) =>
+      (!f.method || f.method.toUpperCase() === req.method) &&
+      (f.remaining === undefined || f.remaining > 0) &&
+      new RegExp(f.path).test(req.path)
+    );
+    if (!fault) return next();
+    if (fault.remaining !== undefined) fault.remaining--;
+
+    setTimeout(() => {
+      if (res.headersSent || res.destroyed) return;
+      if (fault.retryAfter !== undefined) res.setHeader('Retry-After', String(fault.retryAfter));
+      sendError(res, fault.status, 'SIMULATED_FAULT', `Simulated ${fault.status} for ${req.method} ${req.path}`);
+    }, fault.delayMs || 0);
+  }
+
+  private checkTokenRequest(body: any): string | null {
+    if (!body?.orgId || !body?.esDeveloperName) return 'orgId and esDeveloperName are required';
+    // Same rule as Salesforce: web clients must not send a device id
+    if (body.platform === 'Web' && body.deviceId) return 'deviceId is not allowed for the Web platform';
+    return null;
+  }
+
+  private issueToken(subject: string): types.AccessTokenResponse & { lastEventId: string } {
+    const accessToken = `sim-${crypto.randomUUID()}`;
+    this.tokens.set(accessToken, { subject, expiresAt: Date.now() + this.script.tokenTtlSeconds * 1000 });
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn: this.script.tokenTtlSeconds,
+      lastEventId: String(this.eventId),
+      context: { configuration: this.script.configuration }
+    };
+  }
+
+  private conversationFor(req: Request, res: Response): SimulatedConversation | undefined {
+    const conversation = this.conversations.get(req.params.conversationId);
+    if (!conversation || conversation.subject !== res.locals.subject) {
+      sendError(res, 404, 'NOT_FOUND', `Conversation ${req.params.conversationId} not found`);
+      return undefined;
+    }
+    return conversation;
+  }
+
+  private openConversationFor(req: Request, res: Response): SimulatedConversation | undefined {
+    const conversation = this.conversationFor(req, res);
+    if (conversation?.closed) {
+      sendError(res, 409, 'CONVERSATION_CLOSED', 'The conversation is closed');
+      return undefined;
+    }
+    return conversation;
+  }
+
+  // Strictly increasing, so entries sort in the order they were added
+  private now(): number {
+    this.clock = Math.max(this.clock + 1, Date.now());
+    return this.clock;
+  }
+
+  /**
+   * An entry from a persona (by key), the customer (null) or routing (SYSTEM)
+   */
+  private entry(conversation: SimulatedConversation, entryType: types.ConversationEntryType, from: EntrySender, entryPayload: any): any {
+    let sender: types.EntryParticipant = { role: 'EndUser', subject: conversation.subject };
+    let senderDisplayName = 'Guest';
+    if (from === SYSTEM) {
+      sender = { role: 'System' };
+      senderDisplayName = 'Automated Process';
+    } else if (from) {
+      sender = { role: this.script.personas[from].role, subject: from };
+      senderDisplayName = this.script.personas[from].displayName;
+    }
+    return {
+      identifier: crypto.randomUUID(),
+      entryType,
+      sender,
+      senderDisplayName,
+      transcriptedTimestamp: this.now(),
+      entryPayload
+    };
+  }
+
+  private addEntry(conversation: SimulatedConversation, entryType: types.ConversationEntryType, from: EntrySender, entryPayload: any): any {
+    const entry = this.entry(conversation, entryType, from, entryPayload);
+    conversation.entries.push(entry);
+    conversation.lastModifiedDate = entry.transcriptedTimestamp;
+    this.publish(conversation, entry);
+    return entry;
+  }
+
+  private join(conversation: SimulatedConversation, persona: string) {
+    conversation.persona = persona;
+    this.addEntry(conversation, 'ParticipantChanged', persona, {
+      entries: [{ operation: 'add', displayName: this.script.personas[persona].displayName, participant: { role: this.script.personas[persona].role, subject: persona } }]
+    });
+  }
+
+  private leave(conversation: SimulatedConversation) {
+    const persona = conversation.persona;
+    if (!persona) return;
+    conversation.persona = null;
+    this.addEntry(conversation, 'ParticipantChanged', persona, {
+      entries: [{ operation: 'remove', displayName: this.script.personas[persona].displayName, participant: { role: this.script.personas[persona].role, subject: persona } }]
+    });
+  }
+
+  private close(conversation: SimulatedConversation, persona: string | null) {
+    this.leave(conversation);
+    conversation.closed = true;
+    this.addEntry(conversation, 'ConversationClose', persona, {});
+  }
+
+  /**
+   * Run the first rule matching a customer message (or the fallback)
+   */
+  private respond(conversation: SimulatedConversation, text: string) {
+    if (!conversation.persona) return;
+    const rule = this.script.rules.find((r) =>
+      (!r.persona || r.persona === conversation.persona) && new RegExp(r.match, 'i').test(text)
+    );
+    this.enqueue(conversation, rule ? rule.steps : this.script.fallback, text);
+  }
+
+  private enqueue(conversation: SimulatedConversation, steps: SimulatorStep[], text: string) {
+    conversation.queue = conversation.queue
+      .then(() => this.runSteps(conversation, steps, text))
+      .catch((error) => console.error(`Simulator script failed for ${conversation.id}:`, error.message));
+  }
+
+  private async runSteps(conversation: SimulatedConversation, steps: SimulatorStep[], text: string) {
+    const values = { ...conversation.routingAttributes, text };
+    for (const step of steps) {
+      if (conversation.closed) return;
+      const speaks = step.say !== undefined || step.choices !== undefined;
+      const delayMs = step.delayMs ?? (speaks ? this.script.replyDelayMs : 0);
+      const persona = conversation.persona;
+
+      if (speaks && persona) {
+        this.publish(conversation, this.entry(conversation, 'TypingStartedIndicator', persona, { timestamp: this.now() }));
+      }
+      if (delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+      if (conversation.closed) return;
+      if (speaks && persona) {
+        this.publish(conversation, this.entry(conversation, 'TypingStoppedIndicator', persona, { timestamp: this.now() }));
+      }
+
+      if (step.say !== undefined && persona) {
+        this.say(conversation, persona, {
+          messageType: 'StaticContentMessage',
+          staticContent: { formatType: 'Text', text: fill(step.say, values) }
+        });
+      }
+      if (step.choices && persona) {
+        this.say(conversation, persona, {
+          messageType: 'ChoicesMessage',
+          choices: {
+            formatType: 'Buttons',
+            text: fill(step.choices.text, values),
+            optionItems: step.choices.options.map((option, index) => ({
+              optionIdentifier: `option-${index + 1}`,
+              titleItem: { itemType: 'TitleItem', title: fill(option, values) }
+            }))
+          }
+        });
+      }
+      if (step.transfer) {
+        this.leave(conversation);
+        conversation.routingType = 'Transfer';
+        this.addEntry(conversation, 'RoutingResult', SYSTEM, { routingType: 'Transfer', failureType: 'None' });
+        this.join(conversation, step.transfer);
+      }
+      if (step.close) {
+        this.close(conversation, persona);
+      }
+    }
+  }
+
+  private say(conversation: SimulatedConversation, persona: string, message: Omit<types.AbstractMessage, 'id'>) {
+    const id = crypto.randomUUID();
+    this.addEntry(conversation, 'Message', persona, { id, entryType: 'Message', abstractMessage: { id, ...message } });
+  }
+
+  private subscribe(req: Request, res: Response) {
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const session = this.tokens.get(token);
+    if (!session || session.expiresAt < Date.now()) {
+      return sendError(res, 401, 'UNAUTHORIZED', 'Invalid or expired access token');
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.write(': connected\n\n');
+    const subscriber: Subscriber = {
+      token,
+      subject: session.subject,
+      res,
+      keepAlive: setInterval(() => res.write(': keep-alive\n\n'), 15000)
+    };
+    this.subscribers.add(subscriber);
+    req.on('close', () => this.unsubscribe(subscriber));
+  }
+
+  private unsubscribe(subscriber: Subscriber) {
+    clearInterval(subscriber.keepAlive);
+    this.subscribers.delete(subscriber);
+    subscriber.res.end();
+  }
+
+  /**
+   * Push an entry to the customer's event router subscriptions (entryPayload as a string, like Salesforce)
+   */
+  private publish(conversation: SimulatedConversation, entry: any) {
+    const event = EVENT_TYPES[entry.entryType];
+    if (!event) return;
+    const data = JSON.stringify({
+      conversationId: conversation.id,
+      conversationEntry: { ...entry, entryPayload: JSON.stringify(entry.entryPayload) }
+    });
+    const id = ++this.eventId;
+    for (const subscriber of this.subscribers) {
+      if (subscriber.subject === conversation.subject) {
+        subscriber.res.write(`id: ${id}\nevent: ${event}\ndata: ${data}\n\n`);
+      }
+    }
+  }
+}
+
+// `npm run simulator`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.MIAW_SIMULATOR_PORT || '4010', 10);
+  const simulator = new MiawSimulator(loadSimulatorScript());
+  simulator.createApp().listen(port, () => {
+    console.log(`MIAW simulator listening on http://localhost:${port}`);
+    console.log(`Point the server at it with MIAW_SCRT_URL=localhost:${port} MIAW_SCRT_PROTOCOL=http`);
+  });
+}
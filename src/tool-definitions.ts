@@ -12,7 +12,10 @@ export const MIAW_TOOLS: any[] = [
       properties: {
         appName: { type: 'string', description: 'Name of the application (optional)' },
         clientVersion: { type: 'string', description: 'Version of the client (optional)' },
-        captchaToken: { type: 'string', description: 'CAPTCHA token if required by deployment (optional)' }
+        captchaToken: { type: 'string', description: 'CAPTCHA token if required by deployment (optional)' },
+        deviceId: { type: 'string', description: 'Device identifier for non-Web platforms (optional; ignored when the deployment\'s platform is Web)' },
+        userKey: { type: 'string', description: 'Stable identifier for this user, used to resume the chat later with resume_conversation (optional; refused while another live session holds it)' },
+        deployment: { type: 'string', description: 'Embedded Service deployment (brand/region) to chat with, when the server hosts several (optional; defaults to the server\'s default deployment)' }
       },
       required: [],
       additionalProperties: false
@@ -22,6 +25,39 @@ export const MIAW_TOOLS: any[] = [
       properties: {
         sessionId: { type: 'string', description: 'Session identifier - SAVE THIS and pass to all other tools' },
         expiresIn: { type: 'number', description: 'Session expiration in seconds' },
+        resumeToken: { type: 'string', description: 'Secret for resume_conversation together with userKey - returned only when a userKey was given; keep it private' },
+        message: { type: 'string', description: 'Status message' }
+      },
+      required: ['sessionId']
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+    _meta: {
+      'openai/toolInvocation/invoking': 'Talking to Salesforce',
+      'openai/toolInvocation/invoked': 'Salesforce responded'
+    }
+  },
+  {
+    name: 'generate_authenticated_access_token',
+    title: 'Generate Verified Session',
+    description: 'Create a new session for a verified (logged-in) customer so the Salesforce agent sees their identity. Use instead of generate_guest_access_token when the user is signed in. Returns a sessionId that must be used in all subsequent calls.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        subject: { type: 'string', description: 'Customer identifier to verify (optional; only honored when the server allows caller-supplied subjects)' },
+        deviceId: { type: 'string', description: 'Device identifier for non-Web platforms (optional; ignored when the deployment\'s platform is Web)' },
+        userKey: { type: 'string', description: 'Stable identifier for this user, used by resume_conversation (optional; defaults to the verified subject)' },
+        deployment: { type: 'string', description: 'Embedded Service deployment (brand/region) to chat with, when the server hosts several (optional; defaults to the server\'s default deployment)' }
+      },
+      required: [],
+      additionalProperties: false
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'Session identifier - SAVE THIS and pass to all other tools' },
+        expiresIn: { type: 'number', description: 'Session expiration in seconds' },
+        resumeToken: { type: 'string', description: 'Secret for resume_conversation together with userKey - returned only when a userKey was given; keep it private' },
+        verified: { type: 'boolean', description: 'True for verified-customer sessions' },
         message: { type: 'string', description: 'Status message' }
       },
       required: ['sessionId']
@@ -43,7 +79,8 @@ export const MIAW_TOOLS: any[] = [
         routableType: { type: 'string', description: 'Type of routing (e.g., "Queue", "Agent")' },
         routingAttributes: { type: 'object', description: 'Routing attributes' },
         capabilities: { type: 'array', items: { type: 'string' }, description: 'Client capabilities' },
-        prechatDetails: { type: 'array', items: { type: 'object' }, description: 'Pre-chat form data' }
+        prechatFields: { type: 'object', description: 'Pre-chat form values keyed by field name (e.g. {"_firstName": "Ada", "_email": "ada@example.com"})' },
+        prechatDetails: { type: 'array', items: { type: 'object' }, description: 'Pre-chat form data (legacy: [{ name, value }])' }
       },
       required: ['sessionId'],
       additionalProperties: false
@@ -62,6 +99,38 @@ export const MIAW_TOOLS: any[] = [
       'openai/toolInvocation/invoked': 'Salesforce responded'
     }
   },
+  {
+    name: 'resume_conversation',
+    title: 'Resume Conversation',
+    description: 'Reattach to an existing open conversation (e.g. after the chat was reloaded) instead of starting a new one. Pass the previous sessionId, or the userKey together with the resumeToken returned when that session was created. Returns a NEW sessionId to use from now on, plus the messages the user missed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'The previous session ID (optional if userKey is given)' },
+        userKey: { type: 'string', description: 'The userKey passed when the original session was created (optional; requires resumeToken)' },
+        resumeToken: { type: 'string', description: 'The resumeToken returned with the session for that userKey (required with userKey)' },
+        conversationId: { type: 'string', description: 'Specific conversation to resume (optional; defaults to the most recent open one)' }
+      },
+      required: [],
+      additionalProperties: false
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'NEW session ID - use this in all subsequent calls' },
+        conversationId: { type: 'string', description: 'The resumed conversation ID' },
+        previousSessionId: { type: 'string', description: 'The session that was replaced' },
+        resumeToken: { type: 'string', description: 'NEW resume token for the userKey - the previous one no longer works' },
+        entries: { type: 'array', items: { type: 'object' }, description: 'Messages since the user last saw the conversation' }
+      },
+      required: ['sessionId', 'conversationId', 'entries']
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+    _meta: {
+      'openai/toolInvocation/invoking': 'Talking to Salesforce',
+      'openai/toolInvocation/invoked': 'Salesforce responded'
+    }
+  },
   {
     name: 'send_message',
     title: 'Send Message',
@@ -91,6 +160,126 @@ export const MIAW_TOOLS: any[] = [
       'openai/toolInvocation/invoked': 'Salesforce responded'
     }
   },
+  {
+    name: 'send_file',
+    title: 'Send File',
+    description: 'Send a file attachment (e.g. a screenshot or receipt) in an active conversation. The file must be base64 encoded.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'Session ID from generate_guest_access_token (REQUIRED)' },
+        conversationId: { type: 'string', description: 'The ID of the conversation' },
+        fileName: { type: 'string', description: 'Name of the file, including extension' },
+        mimeType: { type: 'string', description: 'MIME type of the file (e.g. "image/png", "application/pdf")' },
+        fileData: { type: 'string', description: 'Base64 encoded file contents' },
+        text: { type: 'string', description: 'Optional caption to send with the file' }
+      },
+      required: ['sessionId', 'conversationId', 'fileName', 'mimeType', 'fileData'],
+      additionalProperties: false
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', description: 'Whether the file was sent successfully' },
+        messageId: { type: 'string', description: 'The sent message ID' },
+        fileName: { type: 'string', description: 'Name of the uploaded file' },
+        size: { type: 'number', description: 'File size in bytes' }
+      },
+      required: ['success']
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+    _meta: {
+      'openai/toolInvocation/invoking': 'Uploading to Salesforce',
+      'openai/toolInvocation/invoked': 'File sent'
+    }
+  },
+  {
+    name: 'send_choice_response',
+    title: 'Select Choice',
+    description: 'Answer a bot message that offers choices (buttons, quick replies or carousel cards). Use the optionId from the entry\'s content.options and the message id from _roleInfo.instruction.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'Session ID from generate_guest_access_token (REQUIRED)' },
+        conversationId: { type: 'string', description: 'The ID of the conversation' },
+        optionId: { type: 'string', description: 'optionId of the choice the user selected' },
+        title: { type: 'string', description: 'Title of the selected choice, as shown to the user' },
+        inReplyToMessageId: { type: 'string', description: 'ID of the message that offered the choices' }
+      },
+      required: ['sessionId', 'conversationId', 'optionId', 'inReplyToMessageId'],
+      additionalProperties: false
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', description: 'Whether the selection was sent successfully' },
+        messageId: { type: 'string', description: 'The sent message ID' },
+        optionId: { type: 'string', description: 'The selected option' }
+      },
+      required: ['success']
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+    _meta: {
+      'openai/toolInvocation/invoking': 'Sending your selection',
+      'openai/toolInvocation/invoked': 'Selection sent'
+    }
+  },
+  {
+    name: 'send_typing_indicator',
+    title: 'Send Typing Indicator',
+    description: 'Tell the agent the user has started or stopped typing. Used by the chat widget; not needed in normal ChatGPT turns.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'Session ID from generate_guest_access_token (REQUIRED)' },
+        conversationId: { type: 'string', description: 'The ID of the conversation' },
+        isTyping: { type: 'boolean', description: 'True when the user starts typing, false when they stop' }
+      },
+      required: ['sessionId', 'conversationId', 'isTyping'],
+      additionalProperties: false
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', description: 'Whether the indicator was sent' }
+      },
+      required: ['success']
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+    _meta: {
+      'openai/toolInvocation/invoking': 'Updating typing status',
+      'openai/toolInvocation/invoked': 'Typing status sent'
+    }
+  },
+  {
+    name: 'send_delivery_acknowledgements',
+    title: 'Send Read Receipts',
+    description: 'Mark agent messages as Delivered or Read. Entries returned by list_conversation_entries are acknowledged as Delivered automatically.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'Session ID from generate_guest_access_token (REQUIRED)' },
+        conversationId: { type: 'string', description: 'The ID of the conversation' },
+        entryIds: { type: 'array', items: { type: 'string' }, description: 'Identifiers of the conversation entries to acknowledge' },
+        status: { type: 'string', enum: ['Delivered', 'Read'], description: 'Acknowledgement type (default: Read)' }
+      },
+      required: ['sessionId', 'conversationId', 'entryIds'],
+      additionalProperties: false
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', description: 'Whether the request succeeded' },
+        acknowledged: { type: 'number', description: 'Number of entries newly acknowledged' }
+      },
+      required: ['success']
+    },
+    annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+    _meta: {
+      'openai/toolInvocation/invoking': 'Sending read receipts',
+      'openai/toolInvocation/invoked': 'Read receipts sent'
+    }
+  },
   {
     name: 'list_conversation_entries',
     title: 'List Conversation Messages',
@@ -100,7 +289,10 @@ export const MIAW_TOOLS: any[] = [
       properties: {
         sessionId: { type: 'string', description: 'Session ID from generate_guest_access_token (REQUIRED)' },
         conversationId: { type: 'string', description: 'The ID of the conversation' },
-        continuationToken: { type: 'string', description: 'Optional pagination token' }
+        continuationToken: { type: 'string', description: 'Optional pagination token' },
+        since: { type: 'string', description: 'Pass "cursor" to get only messages you have not been given yet (recommended), or the cursor from a previous response to get entries after it. Omit for the full history.' },
+        cursorId: { type: 'string', description: 'Name of the stored read cursor that since="cursor" reads and advances, when several readers share the session (optional; defaults to "default")' },
+        skipPolling: { type: 'boolean', description: 'Return at once instead of waiting for a reply (used by the chat widget)' }
       },
       required: ['sessionId', 'conversationId'],
       additionalProperties: false
@@ -108,7 +300,8 @@ export const MIAW_TOOLS: any[] = [
     outputSchema: {
       type: 'object',
       properties: {
-        entries: { type: 'array', items: { type: 'object' }, description: 'CRITICAL: Reply with ONLY the message text from the most recent entry. WRONG: "Here is the message: Hello" WRONG: "The agent said: Hello" RIGHT: "Hello" - Just output the text field value, nothing else.' }
+        entries: { type: 'array', items: { type: 'object' }, description: 'CRITICAL: Reply with ONLY the message text from the most recent entry (if the bot replied with several messages, or with since="cursor", from each entry of the reply in order - see _roleInfo.instruction). WRONG: "Here is the message: Hello" WRONG: "The agent said: Hello" RIGHT: "Hello" - Just output the text field value, nothing else. If an entry has attachments, share each name with its downloadUrl (links expire after a few minutes). Rich messages also carry content: for content.kind="choices" list content.options so the user can pick one.' },
+        cursor: { type: 'string', description: 'Position of the newest entry returned; pass as since to continue from here' }
       },
       required: ['entries']
     },
@@ -145,6 +338,42 @@ export const MIAW_TOOLS: any[] = [
       'openai/toolInvocation/invoked': 'Salesforce responded'
     }
   },
+  {
+    name: 'get_conversation_transcript',
+    title: 'Get Conversation Transcript',
+    description: 'Export the full transcript of a conversation (all pages of history) for the user\'s records. Returns the transcript text for json, markdown, text and html, and a short-lived downloadUrl for every format including pdf. Share the downloadUrl when the user asks for a copy.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: { type: 'string', description: 'Session ID from generate_guest_access_token (REQUIRED)' },
+        conversationId: { type: 'string', description: 'The ID of the conversation' },
+        format: {
+          type: 'string',
+          enum: ['json', 'markdown', 'text', 'html', 'pdf'],
+          description: 'Transcript format (default markdown)'
+        }
+      },
+      required: ['sessionId', 'conversationId'],
+      additionalProperties: false
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        conversationId: { type: 'string' },
+        format: { type: 'string' },
+        fileName: { type: 'string' },
+        entryCount: { type: 'number', description: 'Number of entries in the conversation history' },
+        transcript: { type: 'string', description: 'The rendered transcript (omitted for pdf)' },
+        downloadUrl: { type: 'string', description: 'Signed link to download the transcript file (expires after a few minutes; absent when the server cannot sign links)' }
+      },
+      required: ['conversationId', 'format']
+    },
+    annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
+    _meta: {
+      'openai/toolInvocation/invoking': 'Exporting transcript',
+      'openai/toolInvocation/invoked': 'Transcript ready'
+    }
+  },
   {
     name: 'close_conversation',
     title: 'Close Conversation',
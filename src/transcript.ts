@@ -0,0 +1,267 @@
+/**
+ * Conversation transcript export
+ *
+ * Renders a conversation's full history (already paged in and normalized)
+ * as JSON, Markdown, plain text, HTML or PDF for customer records and QA.
+ * Messages show sender, role classification and time; routing and
+ * participant events are included as one-liners; typing indicators and
+ * acknowledgements are left out.
+ */
+
+import { NormalizedEntry } from './entries.js';
+
+export type TranscriptFormat = 'json' | 'markdown' | 'text' | 'html' | 'pdf';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['json', 'markdown', 'text', 'html', 'pdf'];
+
+export interface RenderedTranscript {
+  content: string | Buffer;
+  mimeType: string;
+  fileName: string;
+}
+
+const FORMAT_DETAILS: Record<TranscriptFormat, { mimeType: string; extension: string }> = {
+  json: { mimeType: 'application/json', extension: 'json' },
+  markdown: { mimeType: 'text/markdown', extension: 'md' },
+  text: { mimeType: 'text/plain', extension: 'txt' },
+  html: { mimeType: 'text/html', extension: 'html' },
+  pdf: { mimeType: 'application/pdf', extension: 'pdf' }
+};
+
+export function isTranscriptFormat(value: unknown): value is TranscriptFormat {
+  return TRANSCRIPT_FORMATS.includes(value as TranscriptFormat);
+}
+
+function formatTime(timestamp: number): string {
+  return timestamp ? new Date(timestamp).toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC') : '';
+}
+
+/**
+ * Messages, plus events that have a description (routing, participants, close)
+ */
+function transcriptEntries(entries: NormalizedEntry[]): NormalizedEntry[] {
+  return entries.filter((e) =>
+    e.type === 'Message' || (!!e.text && !e.type.endsWith('Indicator') && !e.type.endsWith('Acknowledgement'))
+  );
+}
+
+function senderOf(entry: NormalizedEntry): string {
+  return entry.senderName || entry.role;
+}
+
+/**
+ * Markdown transcript (also served as the MCP transcript resource)
+ */
+export function renderTranscriptMarkdown(conversationId: string, entries: NormalizedEntry[]): string {
+  const lines = [`# Conversation ${conversationId}`, ''];
+
+  for (const entry of transcriptEntries(entries)) {
+    if (entry.type !== 'Message') {
+      lines.push(`_${entry.text}_ - ${formatTime(entry.timestamp)}`, '');
+      continue;
+    }
+    lines.push(`**${senderOf(entry)}** (${entry.classification}) - ${formatTime(entry.timestamp)}`);
+    lines.push(entry.text || '_(empty message)_');
+    for (const attachment of entry.attachments || []) {
+      lines.push(attachment.downloadUrl
+        ? `- Attachment: [${attachment.name}](${attachment.downloadUrl})`
+        : `- Attachment: ${attachment.name}`);
+    }
+    lines.push('');
+  }
+
+  if (entries.length === 0) {
+    lines.push('_No messages yet._', '');
+  }
+  return lines.join('\n');
+}
+
+function renderText(conversationId: string, entries: NormalizedEntry[], exportedAt: number): string {
+  const lines = [`Conversation ${conversationId}`, `Exported ${formatTime(exportedAt)}`, ''];
+  for (const entry of transcriptEntries(entries)) {
+    if (entry.type !== 'Message') {
+      lines.push(`[${formatTime(entry.timestamp)}] * ${entry.text}`);
+      continue;
+    }
+    lines.push(`[${formatTime(entry.timestamp)}] ${senderOf(entry)} (${entry.classification}):`);
+    for (const line of (entry.text || '(empty message)').split('\n')) {
+      lines.push(`  ${line}`);
+    }
+    for (const attachment of entry.attachments || []) {
+      lines.push(`  [attachment: ${attachment.name}]`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderHtml(conversationId: string, entries: NormalizedEntry[], exportedAt: number): string {
+  const rows = transcriptEntries(entries).map((entry) => {
+    const time = escapeHtml(formatTime(entry.timestamp));
+    if (entry.type !== 'Message') {
+      return `<div class="event">${escapeHtml(entry.text)} <time>${time}</time></div>`;
+    }
+    const attachments = (entry.attachments || []).map((a) => a.downloadUrl
+      ? `<li><a href="${escapeHtml(a.downloadUrl)}">${escapeHtml(a.name)}</a></li>`
+      : `<li>${escapeHtml(a.name)}</li>`).join('');
+    return [
+      `<div class="message ${entry.classification}">`,
+      `<div class="meta"><strong>${escapeHtml(senderOf(entry))}</strong> (${entry.classification}) <time>${time}</time></div>`,
+      `<div class="text">${escapeHtml(entry.text || '(empty message)').replace(/\n/g, '<br>')}</div>`,
+      attachments ? `<ul class="attachments">${attachments}</ul>` : '',
+      '</div>'
+    ].join('');
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Conversation ${escapeHtml(conversationId)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 760px; margin: 24px auto; color: #181818; }
+  .message { margin: 12px 0; padding: 10px 14px; border-radius: 8px; background: #f3f3f3; }
+  .message.user { background: #e8f1fb; }
+  .message.agent { background: #eef8ee; }
+  .meta { font-size: 12px; color: #555; margin-bottom: 4px; }
+  .event { margin: 8px 0; font-size: 12px; font-style: italic; color: #706e6b; text-align: center; }
+  time { color: #888; }
+</style>
+</head>
+<body>
+<h1>Conversation ${escapeHtml(conversationId)}</h1>
+<p class="meta">Exported ${escapeHtml(formatTime(exportedAt))}</p>
+${rows.join('\n')}
+</body>
+</html>
+`;
+}
+
+// PDF layout: A4 portrait, Helvetica 10pt
+const PDF_PAGE_WIDTH = 595;
+const PDF_PAGE_HEIGHT = 842;
+const PDF_MARGIN = 50;
+const PDF_FONT_SIZE = 10;
+const PDF_LEADING = 14;
+const PDF_CHARS_PER_LINE = 95;
+const PDF_LINES_PER_PAGE = Math.floor((PDF_PAGE_HEIGHT - 2 * PDF_MARGIN) / PDF_LEADING);
+
+// Typographic characters common in agent text, folded to their Latin-1 look-alikes
+const PDF_CHAR_SUBSTITUTES: Record<string, string> = {
+  '\u2018': "'", '\u2019': "'", '\u201c': '"', '\u201d': '"',
+  '\u2013': '-', '\u2014': '-', '\u2026': '...', '\u00a0': ' '
+};
+
+function wrapLine(line: string, width: number): string[] {
+  if (line.length <= width) return [line];
+  const wrapped: string[] = [];
+  let rest = line;
+  while (rest.length > width) {
+    const breakAt = rest.lastIndexOf(' ', width);
+    const cut = breakAt > width / 2 ? breakAt : width;
+    wrapped.push(rest.substring(0, cut));
+    rest = rest.substring(cut).trimStart();
+  }
+  wrapped.push(rest);
+  return wrapped;
+}
+
+/**
+ * PDF string literal in WinAnsi (Latin-1); characters outside it become "?"
+ */
+function pdfString(value: string): string {
+  const latin1 = Array.from(value)
+    .map((ch) => PDF_CHAR_SUBSTITUTES[ch] ?? (ch.charCodeAt(0) <= 0xff ? ch : '?'))
+    .join('');
+  return `(${latin1.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')})`;
+}
+
+/**
+ * Minimal text-only PDF writer - enough for a transcript without pulling in a PDF library
+ */
+function buildPdf(lines: string[]): Buffer {
+  const wrapped = lines.flatMap((line) => wrapLine(line.replace(/\t/g, '    '), PDF_CHARS_PER_LINE));
+  const pages: string[][] = [];
+  for (let i = 0; i < wrapped.length; i += PDF_LINES_PER_PAGE) {
+    pages.push(wrapped.slice(i, i + PDF_LINES_PER_PAGE));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // 1: catalog, 2: page tree, 3: font, then a page object and a content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  pages.forEach((pageLines, i) => {
+    const pageId = pageIds[i];
+    const stream = [
+      'BT',
+      `/F1 ${PDF_FONT_SIZE} Tf`,
+      `${PDF_LEADING} TL`,
+      `${PDF_MARGIN} ${PDF_PAGE_HEIGHT - PDF_MARGIN} Td`,
+      ...pageLines.map((line) => `${pdfString(line)} '`),
+      'ET'
+    ].join('\n');
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Render a conversation transcript in the given format
+ */
+export function renderTranscript(
+  conversationId: string,
+  entries: NormalizedEntry[],
+  format: TranscriptFormat,
+  exportedAt: number = Date.now()
+): RenderedTranscript {
+  const { mimeType, extension } = FORMAT_DETAILS[format];
+  const fileName = `transcript-${conversationId}.${extension}`;
+
+  switch (format) {
+    case 'json':
+      return {
+        mimeType,
+        fileName,
+        content: JSON.stringify({
+          conversationId,
+          exportedAt: new Date(exportedAt).toISOString(),
+          entryCount: entries.length,
+          entries
+        }, null, 2)
+      };
+    case 'markdown':
+      return { mimeType, fileName, content: renderTranscriptMarkdown(conversationId, entries) };
+    case 'html':
+      return { mimeType, fileName, content: renderHtml(conversationId, entries, exportedAt) };
+    case 'pdf':
+      return { mimeType, fileName, content: buildPdf(renderText(conversationId, entries, exportedAt).split('\n')) };
+    case 'text':
+    default:
+      return { mimeType, fileName, content: renderText(conversationId, entries, exportedAt) };
+  }
+}
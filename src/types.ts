@@ -4,10 +4,14 @@
 
 export interface MIAWConfig {
   scrtUrl: string;
+  /** http only for a local stand-in such as the simulator (defaults to https) */
+  scrtProtocol?: 'https' | 'http';
   orgId: string;
   esDeveloperName: string;
   capabilitiesVersion?: string;
   platform?: string;
+  /** Override for the SSE event router URL (defaults to https://{scrtUrl}/eventrouter/v1/sse) */
+  eventRouterUrl?: string;
 }
 
 export interface AccessTokenRequest {
@@ -29,19 +33,65 @@ export interface AccessTokenResponse {
   expiresIn: number;
   conversationContextId?: string;
   context?: {
-    configuration?: any;
+    configuration?: EmbeddedServiceConfiguration;
     conversationId?: string;
   };
 }
 
-export interface AuthenticatedTokenRequest extends AccessTokenRequest {
-  jwt: string;
-  subject: string;
+/**
+ * Embedded Service deployment configuration (subset we use)
+ */
+export interface EmbeddedServiceConfiguration {
+  name?: string;
+  forms?: EmbeddedServiceForm[];
+  choiceListConfig?: {
+    choiceList?: Array<{
+      choiceListId: string;
+      choiceListValues?: Array<{
+        choiceListValueName: string;
+        label?: string;
+        order?: number;
+        isDefaultValue?: boolean;
+      }>;
+    }>;
+  };
+  [key: string]: any;
+}
+
+export interface EmbeddedServiceForm {
+  formType: string; // 'PreChat'
+  displayContext?: string;
+  formFields?: PrechatFormField[];
+  hiddenFormFields?: PrechatFormField[];
+}
+
+export interface PrechatFormField {
+  name: string;
+  label?: string;
+  type?: string; // Text, Email, Phone, Number, ChoiceList, Checkbox
+  required?: boolean;
+  maxLength?: number;
+  order?: number;
+  isHidden?: boolean;
+  choiceListId?: string;
+}
+
+export interface AuthenticatedTokenRequest {
+  orgId: string;
+  esDeveloperName: string;
+  capabilitiesVersion: string;
+  platform: string;
+  authorizationType: 'JWT';
+  customerIdentityToken: string;
+  deviceId?: string;
 }
 
 export interface ContinuationTokenResponse {
-  continuationToken: string;
-  expiresIn: number;
+  // The endpoint returns a fresh access token; older docs call it continuationToken
+  accessToken?: string;
+  continuationToken?: string;
+  expiresIn?: number;
+  lastEventId?: string;
 }
 
 export interface CreateConversationRequest {
@@ -96,11 +146,84 @@ export interface TypingIndicatorRequest {
 
 export interface SendFileRequest {
   file: {
-    data: string; // Base64 encoded
+    data: Buffer;
     fileName: string;
     mimeType: string;
   };
-  clientTimestamp?: number;
+  /** Optional caption sent with the file */
+  text?: string;
+  inReplyToMessageId?: string;
+}
+
+export interface SendChoiceResponseRequest {
+  /** optionIdentifier of the selected choice */
+  optionId: string;
+  /** Display title of the selected choice */
+  title?: string;
+  /** id of the ChoicesMessage being answered */
+  inReplyToMessageId: string;
+}
+
+export interface TitleItem {
+  itemType?: string;
+  title: string;
+  subTitle?: string;
+}
+
+export interface ImageItem {
+  assetUrl?: string;
+  url?: string;
+  mimeType?: string;
+}
+
+export interface ChoiceOptionItem {
+  optionIdentifier: string;
+  titleItem?: TitleItem;
+  imageItem?: ImageItem;
+}
+
+export interface ChoicesContent {
+  formatType: 'Buttons' | 'QuickReplies' | 'Carousel' | 'InlineSelector' | 'Selections' | string;
+  text?: string;
+  titleItem?: TitleItem;
+  optionItems?: ChoiceOptionItem[];
+  /** Carousel cards */
+  items?: Array<{
+    titleItem?: TitleItem;
+    imageItem?: ImageItem;
+    interactionItems?: ChoiceOptionItem[];
+  }>;
+}
+
+export interface FormContent {
+  formatType: string;
+  text?: string;
+  titleItem?: TitleItem;
+  sections?: Array<{
+    inputs?: any[];
+    fields?: any[];
+  }>;
+}
+
+export interface AbstractMessage {
+  id?: string;
+  messageType: 'StaticContentMessage' | 'ChoicesMessage' | 'FormMessage' | 'ChoicesResponseMessage' | 'FormResponseMessage' | string;
+  inReplyToMessageId?: string;
+  staticContent?: {
+    formatType: string;
+    text?: string;
+    attachments?: any[];
+  };
+  choices?: ChoicesContent;
+  form?: FormContent;
+  choicesResponse?: {
+    formatType?: string;
+    selectedOptions?: Array<{ optionIdentifier: string; title?: string; optionValue?: string }>;
+  };
+  formResponse?: {
+    formatType?: string;
+    text?: string;
+  };
 }
 
 export interface ConversationRoutingStatus {
@@ -112,23 +235,111 @@ export interface ConversationRoutingStatus {
   };
 }
 
-export interface ConversationEntry {
-  id: string;
-  entryType: string;
-  timestamp: number;
-  sender?: {
-    subject: string;
-    role: string;
-    displayName?: string;
+export type ParticipantRole = 'EndUser' | 'Agent' | 'Chatbot' | 'System' | 'Supervisor' | 'Router';
+
+export type ConversationEntryType =
+  | 'Message'
+  | 'ParticipantChanged'
+  | 'RoutingResult'
+  | 'RoutingWorkResult'
+  | 'ConversationClose'
+  | 'TypingStartedIndicator'
+  | 'TypingStoppedIndicator'
+  | 'DeliveryAcknowledgement'
+  | 'ReadAcknowledgement';
+
+export interface EntryParticipant {
+  role: ParticipantRole;
+  subject?: string;
+  appType?: string;
+}
+
+/**
+ * Fields common to every entry in GET /conversation/{id}/entries (and the
+ * event router's conversationEntry once entryPayload is parsed)
+ */
+interface ConversationEntryBase {
+  identifier: string;
+  entryType: ConversationEntryType;
+  sender: EntryParticipant;
+  senderDisplayName?: string;
+  transcriptedTimestamp: number;
+  clientTimestamp?: number;
+  clientDuration?: number;
+  relatedRecords?: string[];
+}
+
+export interface MessageEntry extends ConversationEntryBase {
+  entryType: 'Message';
+  entryPayload: {
+    id?: string;
+    entryType?: 'Message';
+    abstractMessage: AbstractMessage;
+    /** e.g. AutomatedResponse for deployment templates */
+    messageReason?: string;
   };
-  message?: {
-    text: string;
-    messageType: string;
-    abstractMessage?: any;
+}
+
+export interface ParticipantChangedEntry extends ConversationEntryBase {
+  entryType: 'ParticipantChanged';
+  entryPayload: {
+    entries?: Array<{
+      operation: 'add' | 'remove' | string;
+      displayName?: string;
+      participant: EntryParticipant;
+    }>;
+    participantChangeType?: 'Joined' | 'Left' | string;
+  };
+}
+
+export interface RoutingResultEntry extends ConversationEntryBase {
+  entryType: 'RoutingResult';
+  entryPayload: {
+    routingType: 'Initial' | 'Transfer' | 'EndConversation' | string;
+    failureType?: string;
+    failureReason?: string;
+    estimatedWaitTime?: {
+      estimatedWaitTimeInSeconds?: number;
+      positionInQueue?: number;
+    };
+  };
+}
+
+export interface RoutingWorkResultEntry extends ConversationEntryBase {
+  entryType: 'RoutingWorkResult';
+  entryPayload: {
+    workType: 'Assigned' | 'Accepted' | 'Declined' | 'Closed' | string;
+    workId?: string;
+  };
+}
+
+export interface ConversationCloseEntry extends ConversationEntryBase {
+  entryType: 'ConversationClose';
+  entryPayload?: Record<string, never>;
+}
+
+export interface TypingIndicatorEntry extends ConversationEntryBase {
+  entryType: 'TypingStartedIndicator' | 'TypingStoppedIndicator';
+  entryPayload?: { timestamp?: number };
+}
+
+export interface AcknowledgementEntry extends ConversationEntryBase {
+  entryType: 'DeliveryAcknowledgement' | 'ReadAcknowledgement';
+  entryPayload: {
+    acknowledgedConversationEntryIdentifier: string;
+    acknowledgmentTimestamp?: number;
   };
-  entryPayload?: any;
 }
 
+export type ConversationEntry =
+  | MessageEntry
+  | ParticipantChangedEntry
+  | RoutingResultEntry
+  | RoutingWorkResultEntry
+  | ConversationCloseEntry
+  | TypingIndicatorEntry
+  | AcknowledgementEntry;
+
 export interface ListConversationsResponse {
   conversations: Array<{
     conversationId: string;
@@ -140,16 +351,11 @@ export interface ListConversationsResponse {
 }
 
 export interface ListConversationEntriesResponse {
-  entries: ConversationEntry[];
+  /** Salesforce returns conversationEntries (not entries) */
+  conversationEntries: ConversationEntry[];
   continuationToken?: string;
 }
 
-export interface ConversationTranscript {
-  conversationId: string;
-  entries: ConversationEntry[];
-  metadata?: any;
-}
-
 export interface DeliveryAcknowledgement {
   entryId: string;
   deliveryStatus: 'Delivered' | 'Read';
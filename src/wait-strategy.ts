@@ -0,0 +1,152 @@
+/**
+ * Long-poll wait strategy for list_conversation_entries
+ *
+ * Bots often answer with several bubbles in quick succession, so returning on
+ * the first Chatbot/Agent message cuts the turn short. The strategy keeps
+ * waiting until no new reply has arrived for a quiet period, backs off
+ * between REST polls, and stops early when the conversation is routed or
+ * closed. Tunables come from the environment, so each deployment can match
+ * its bot's pacing and its MCP client's request timeout.
+ */
+
+import { NormalizedEntry, closingEntries, isResponseEntry } from './entries.js';
+
+export interface WaitStrategy {
+  /** Upper bound for one call (MIAW_POLL_MAX_WAIT_MS) */
+  maxWaitMs: number;
+  /** First REST poll interval (MIAW_POLL_INITIAL_INTERVAL_MS) */
+  initialIntervalMs: number;
+  /** Backoff ceiling (MIAW_POLL_MAX_INTERVAL_MS) */
+  maxIntervalMs: number;
+  /** Interval multiplier after each empty poll (MIAW_POLL_BACKOFF_FACTOR) */
+  backoffFactor: number;
+  /** Return once no new reply has arrived for this long; 0 returns on the first reply (MIAW_POLL_QUIET_PERIOD_MS) */
+  quietPeriodMs: number;
+}
+
+export type WaitStopReason = 'response' | 'routing' | 'closed' | 'timeout';
+
+export type WaitDecision =
+  | { done: true; reason: WaitStopReason }
+  | {
+      done: false;
+      /** How long to sleep before the next REST poll */
+      delayMs: number;
+      /** How long to block on the event stream for the next entry */
+      deadlineMs: number;
+    };
+
+/** Entry types that change who is handling the conversation */
+const ROUTING_ENTRY_TYPES = new Set(['RoutingResult', 'RoutingWorkResult', 'ParticipantChanged']);
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Read the wait strategy from the environment
+ */
+export function loadWaitStrategy(env: NodeJS.ProcessEnv = process.env): WaitStrategy {
+  const initialIntervalMs = readNumber(env.MIAW_POLL_INITIAL_INTERVAL_MS, 500);
+  return {
+    maxWaitMs: readNumber(env.MIAW_POLL_MAX_WAIT_MS, 25000),
+    initialIntervalMs,
+    maxIntervalMs: Math.max(initialIntervalMs, readNumber(env.MIAW_POLL_MAX_INTERVAL_MS, 4000)),
+    backoffFactor: Math.max(1, readNumber(env.MIAW_POLL_BACKOFF_FACTOR, 2)),
+    quietPeriodMs: readNumber(env.MIAW_POLL_QUIET_PERIOD_MS, 1500)
+  };
+}
+
+/**
+ * Replies the caller is waiting for: Chatbot/Agent messages after the end
+ * user's most recent message (entries sorted oldest first)
+ */
+export function pendingReplies(entries: NormalizedEntry[]): NormalizedEntry[] {
+  let start = 0;
+  entries.forEach((entry, index) => {
+    if (entry.type === 'Message' && entry.classification === 'user') {
+      start = index + 1;
+    }
+  });
+  return entries.slice(start).filter(isResponseEntry);
+}
+
+/**
+ * State for one long-poll call. Feed it every fetch with observe(); it says
+ * whether to stop and, if not, how long to wait.
+ */
+export class LongPoll {
+  private readonly startedAt = Date.now();
+  private interval: number;
+  private baselineEvents?: Set<string>;
+  private baselineClosures?: Set<string>;
+  private lastReplyId?: string;
+  private lastReplyAt = 0;
+  private polls = 0;
+
+  constructor(private strategy: WaitStrategy) {
+    this.interval = strategy.initialIntervalMs;
+  }
+
+  get elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  get fetchCount(): number {
+    return this.polls;
+  }
+
+  /**
+   * @param entries all entries in view (oldest first), used for routing/closure detection
+   * @param replies the replies found so far in this call's window
+   */
+  observe(entries: NormalizedEntry[], replies: NormalizedEntry[]): WaitDecision {
+    const now = Date.now();
+    this.polls++;
+
+    // Closures already present on the first fetch are old news, like routing events, unless the
+    // conversation has ended - a participant who left (the bot, on a transfer) may be replaced
+    const closures = closingEntries(entries);
+    if (!this.baselineClosures) {
+      this.baselineClosures = new Set(closures.map((e) => e.id));
+      if (closures.some((e) => e.type !== 'ParticipantChanged')) {
+        return { done: true, reason: 'closed' };
+      }
+    } else if (closures.some((e) => !this.baselineClosures!.has(e.id))) {
+      return { done: true, reason: 'closed' };
+    }
+
+    // Routing events already present on the first fetch are old news
+    const events = entries.filter((e) => ROUTING_ENTRY_TYPES.has(e.type)).map((e) => e.id);
+    if (!this.baselineEvents) {
+      this.baselineEvents = new Set(events);
+    } else if (events.some((id) => !this.baselineEvents!.has(id))) {
+      return { done: true, reason: 'routing' };
+    }
+
+    const latestReply = replies[replies.length - 1];
+    if (latestReply && latestReply.id !== this.lastReplyId) {
+      // New bubble: restart the quiet period and poll briskly again
+      this.lastReplyId = latestReply.id;
+      this.lastReplyAt = now;
+      this.interval = this.strategy.initialIntervalMs;
+    }
+
+    const remaining = this.strategy.maxWaitMs - (now - this.startedAt);
+    let deadlineMs = remaining;
+    if (latestReply) {
+      const quietRemaining = this.strategy.quietPeriodMs - (now - this.lastReplyAt);
+      if (quietRemaining <= 0 || remaining <= 0) {
+        return { done: true, reason: 'response' };
+      }
+      deadlineMs = Math.min(quietRemaining, remaining);
+    } else if (remaining <= 0) {
+      return { done: true, reason: 'timeout' };
+    }
+
+    const delayMs = Math.min(this.interval, deadlineMs);
+    this.interval = Math.min(this.interval * this.strategy.backoffFactor, this.strategy.maxIntervalMs);
+    return { done: false, delayMs, deadlineMs };
+  }
+}
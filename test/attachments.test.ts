@@ -0,0 +1,46 @@
+/**
+ * Outbound file checks
+ */
+
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { loadAttachmentPolicy, prepareUpload } from '../src/attachments.js';
+import { Listening, close, listen, silenceLogs } from './helpers.js';
+
+let scanner: Listening;
+// What the stand-in scanner answers with
+let verdict: unknown = { clean: true };
+
+beforeAll(async () => {
+  silenceLogs();
+  const app = express();
+  app.post('/scan', (_req, res) => res.json(verdict));
+  scanner = await listen(app);
+});
+
+afterAll(async () => {
+  await close(scanner);
+});
+
+describe('virus-scan hook', () => {
+  const upload = () => prepareUpload(
+    loadAttachmentPolicy({ MIAW_FILE_SCAN_URL: `${scanner.url}/scan` }),
+    'note.txt',
+    'text/plain',
+    Buffer.from('hello file').toString('base64')
+  );
+
+  it('lets a file through only when the scanner says it is clean', async () => {
+    verdict = { clean: true };
+    expect((await upload()).toString()).toBe('hello file');
+  });
+
+  it.each([
+    ['an empty verdict', {}],
+    ['clean: false', { clean: false }],
+    ['a non-boolean clean', { clean: 'yes' }]
+  ])('rejects the file on %s', async (_case, answer) => {
+    verdict = answer;
+    await expect(upload()).rejects.toMatchObject({ code: 'FILE_REJECTED' });
+  });
+});
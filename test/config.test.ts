@@ -0,0 +1,86 @@
+/**
+ * Configuration checks and the doctor subcommand
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import { checkConfig, loadServerConfig } from '../src/config.js';
+import { runDoctor } from '../src/doctor.js';
+import { Listening, close, loadServer, postJson, silenceLogs, simulatorEnv, startSimulator } from './helpers.js';
+import type { MiawSimulator } from '../src/simulator.js';
+import type { MIAWMCPServer } from '../src/index.js';
+
+const base = { MIAW_SCRT_URL: 'scrt.example.com', MIAW_ORG_ID: '00D000000000000AAA', MIAW_ES_DEVELOPER_NAME: 'Web_Chat' };
+
+describe('checkConfig', () => {
+  describe('HTTP transport', () => {
+    const http = { ...base, MCP_TRANSPORT: 'http', SERVER_URL: 'https://chat.example.com' };
+
+    it('requires a download signing secret', () => {
+      const { issues } = checkConfig(http);
+      expect(issues).toContainEqual(expect.objectContaining({ subject: 'MIAW_DOWNLOAD_SIGNING_SECRET', severity: 'error' }));
+    });
+
+    it.each(['MIAW_DOWNLOAD_SIGNING_SECRET', 'MIAW_SESSION_ENCRYPTION_KEY'])('accepts %s as the secret', (variable) => {
+      const { issues } = checkConfig({ ...http, [variable]: 'secret' });
+      expect(issues.filter((issue) => issue.severity === 'error')).toEqual([]);
+    });
+
+    it('reads MCP_TRANSPORT case-insensitively, as it checks it', () => {
+      const { issues } = checkConfig({ ...http, MCP_TRANSPORT: 'HTTP' });
+      expect(issues).toContainEqual(expect.objectContaining({ subject: 'MIAW_DOWNLOAD_SIGNING_SECRET', severity: 'error' }));
+      expect(loadServerConfig({ ...http, MCP_TRANSPORT: 'HTTP', MIAW_DOWNLOAD_SIGNING_SECRET: 'secret' }).transport).toBe('http');
+    });
+  });
+
+  describe('identity headers', () => {
+    it('require MIAW_JWT_HEADER_SECRET', () => {
+      const { issues } = checkConfig({ ...base, MIAW_JWT_SUBJECT_HEADER: 'x-customer-id' });
+      expect(issues).toContainEqual(expect.objectContaining({ subject: 'MIAW_JWT_HEADER_SECRET', severity: 'error' }));
+    });
+
+    it('are accepted with a secret', () => {
+      const { issues } = checkConfig({ ...base, MIAW_JWT_SUBJECT_HEADER: 'x-customer-id', MIAW_JWT_HEADER_SECRET: 's' });
+      expect(issues.filter((issue) => issue.severity === 'error')).toEqual([]);
+    });
+  });
+});
+
+describe('runDoctor', () => {
+  let sim: Listening & { simulator: MiawSimulator };
+  let server: MIAWMCPServer;
+  const doctor = (env: NodeJS.ProcessEnv = process.env) => runDoctor((deployment) => server['createClient'](deployment.name), env);
+
+  beforeAll(async () => {
+    silenceLogs();
+    sim = await startSimulator();
+    simulatorEnv(sim.port);
+    server = await loadServer();
+  });
+
+  afterEach(async () => {
+    await fetch(`${sim.url}/simulator/faults`, { method: 'DELETE' });
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+    sim?.simulator.reset();
+    await close(sim);
+  });
+
+  it('passes against the simulator', async () => {
+    expect(await doctor()).toBe(0);
+    // The test token was revoked again
+    const state = await (await fetch(`${sim.url}/simulator/state`)).json() as any;
+    expect(state.tokens).toBe(0);
+  });
+
+  it('fails when Salesforce refuses the deployment credentials', async () => {
+    // What Salesforce answers for an org ID or developer name it does not know
+    await postJson(`${sim.url}/simulator/faults`, { path: '/authorization/unauthenticated/access-token$', status: 400 });
+    expect(await doctor()).not.toBe(0);
+  });
+
+  it('fails on a malformed org ID', async () => {
+    expect(await doctor({ ...process.env, MIAW_ORG_ID: 'not-an-org-id' })).not.toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * The deployment configuration (pre-chat form) behind tools/list and the OpenAPI document
+ */
+
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { Listening, close, listen, loadServer, postJson, silenceLogs, simulatorEnv, startSimulator } from './helpers.js';
+import type { MiawSimulator } from '../src/simulator.js';
+import type { MIAWMCPServer } from '../src/index.js';
+
+let sim: Listening & { simulator: MiawSimulator };
+let server: MIAWMCPServer;
+let api: Listening;
+
+async function prechatFieldNames(): Promise<string[]> {
+  const document = await (await fetch(`${api.url}/openapi.json`)).json() as any;
+  const schema = document.paths['/api/create_conversation'].post.requestBody.content['application/json'].schema;
+  return Object.keys(schema.properties.prechatFields?.properties || {});
+}
+
+async function remainingFaults(): Promise<number | undefined> {
+  const { faults } = (await (await fetch(`${sim.url}/simulator/state`)).json()) as any;
+  return faults[faults.length - 1]?.remaining;
+}
+
+beforeAll(async () => {
+  silenceLogs();
+  sim = await startSimulator();
+  simulatorEnv(sim.port);
+  server = await loadServer();
+  api = await listen(server.createHttpApp());
+});
+
+afterAll(async () => {
+  await server?.stop();
+  await close(api);
+  sim?.simulator.reset();
+  await close(sim);
+});
+
+describe('deployment configuration', () => {
+  it('retries shortly after a failed fetch instead of caching the failure', async () => {
+    // The first attempt and both retries fail
+    await postJson(`${sim.url}/simulator/faults`, { path: '/embedded-service-config$', status: 503, times: 3 });
+    expect(await prechatFieldNames()).toEqual([]);
+    expect(await remainingFaults()).toBe(0);
+
+    // Within the retry delay the failure is not refetched
+    await postJson(`${sim.url}/simulator/faults`, { path: '/embedded-service-config$', status: 503, times: 3 });
+    expect(await prechatFieldNames()).toEqual([]);
+    expect(await remainingFaults()).toBe(3);
+    await fetch(`${sim.url}/simulator/faults`, { method: 'DELETE' });
+
+    // Past it, the next call fetches again
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 31 * 1000);
+    try {
+      expect(await prechatFieldNames()).toEqual(['_firstName', '_email']);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+});
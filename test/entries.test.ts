@@ -0,0 +1,150 @@
+/**
+ * normalizeEntries and entriesAfter on a recorded GET /conversation/{id}/entries response
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from '@jest/globals';
+import { entriesAfter, entriesOf, formatCursor, normalizeEntries, parseCursor, NormalizedEntry } from '../src/entries.js';
+import { DEFAULT_CLASSIFICATION_RULES, EntryClassifier } from '../src/classifier.js';
+
+const fixture = JSON.parse(fs.readFileSync(
+  path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'conversation-entries.json'),
+  'utf8'
+));
+
+const classifier = new EntryClassifier(DEFAULT_CLASSIFICATION_RULES, 'en_US');
+
+const id = (n: number) => `0c7c0a51-1e0e-4d8a-9f3e-2d1a9b6a000${n}`;
+const messageId = (n: number) => `5f1d2c3b-0000-4000-8000-00000000000${n}`;
+
+const EXPECTED: NormalizedEntry[] = [
+  {
+    id: id(1),
+    type: 'RoutingResult',
+    timestamp: 1718000000100,
+    role: 'System',
+    senderName: 'System',
+    classification: 'system',
+    text: 'Routed (Initial)',
+    routing: { type: 'Initial', failureReason: undefined, estimatedWaitSeconds: 45, positionInQueue: 2 }
+  },
+  {
+    id: id(2),
+    type: 'ParticipantChanged',
+    timestamp: 1718000000200,
+    role: 'System',
+    senderName: 'System',
+    classification: 'system',
+    text: 'Selena joined',
+    participants: [{ operation: 'add', role: 'Agent', displayName: 'Selena' }]
+  },
+  {
+    id: id(3),
+    type: 'RoutingWorkResult',
+    timestamp: 1718000000300,
+    role: 'System',
+    senderName: 'System',
+    classification: 'system',
+    text: 'Work accepted',
+    routing: { type: 'Accepted' }
+  },
+  {
+    id: id(4),
+    type: 'Message',
+    timestamp: 1718000000400,
+    role: 'Agent',
+    senderName: 'Selena',
+    classification: 'agent',
+    text: 'Hi, I\'m Selena. How can I help?',
+    messageId: messageId(4),
+    inReplyToMessageId: undefined,
+    messageReason: undefined
+  },
+  {
+    id: id(5),
+    type: 'Message',
+    timestamp: 1718000000500,
+    role: 'Agent',
+    senderName: 'Selena',
+    classification: 'agent',
+    text: 'What is it about?\n1. Billing\n2. Shipping',
+    messageId: messageId(5),
+    inReplyToMessageId: undefined,
+    messageReason: undefined,
+    content: {
+      kind: 'choices',
+      format: 'Buttons',
+      prompt: 'What is it about?',
+      options: [
+        { optionId: 'billing', title: 'Billing', subtitle: undefined, imageUrl: undefined },
+        { optionId: 'shipping', title: 'Shipping', subtitle: undefined, imageUrl: undefined }
+      ],
+      text: 'What is it about?\n1. Billing\n2. Shipping'
+    }
+  },
+  {
+    id: id(6),
+    type: 'Message',
+    timestamp: 1718000000600,
+    role: 'EndUser',
+    senderName: 'Guest',
+    classification: 'user',
+    text: 'Here is the invoice',
+    messageId: messageId(6),
+    inReplyToMessageId: messageId(5),
+    messageReason: undefined,
+    attachments: [{
+      id: '069000000000001',
+      name: 'invoice.pdf',
+      mimeType: 'application/pdf',
+      url: 'https://scrt.example.com/iamessage/api/v2/conversation/abc/file/069000000000001'
+    }]
+  },
+  {
+    id: id(7),
+    type: 'Message',
+    timestamp: 1718000000700,
+    role: 'System',
+    senderName: 'Automated Process',
+    classification: 'closure',
+    text: 'The agent has ended the chat.',
+    messageId: messageId(7),
+    inReplyToMessageId: undefined,
+    messageReason: 'AutomatedResponse'
+  },
+  {
+    id: id(8),
+    type: 'ConversationClose',
+    timestamp: 1718000000800,
+    role: 'System',
+    senderName: 'System',
+    classification: 'closure',
+    text: 'Conversation closed'
+  }
+];
+
+describe('normalizeEntries', () => {
+  it('turns the recorded entries into NormalizedEntry, once each and oldest first', () => {
+    const entries = entriesOf(fixture);
+    expect(normalizeEntries([...entries].reverse(), classifier)).toStrictEqual(EXPECTED);
+  });
+});
+
+describe('entriesAfter', () => {
+  const entries = normalizeEntries(entriesOf(fixture), classifier);
+
+  it('continues after the cursor entry', () => {
+    const cursor = parseCursor(formatCursor({ entryId: id(6), timestamp: 1718000000600 })!);
+    expect(entriesAfter(entries, cursor).map((e) => e.id)).toEqual([id(7), id(8)]);
+  });
+
+  it('falls back to the cursor timestamp when the entry is gone', () => {
+    expect(entriesAfter(entries, parseCursor(`1718000000650:${id(9)}`)).map((e) => e.id)).toEqual([id(7), id(8)]);
+  });
+
+  it('refuses an unknown bare entry id', () => {
+    expect(() => entriesAfter(entries, parseCursor('no-such-entry'))).toThrow(expect.objectContaining({ code: 'CURSOR_NOT_FOUND' }));
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * MIAWEventStream against a local SSE stand-in for the event router
+ */
+
+import http from 'http';
+import express from 'express';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import { MIAWEventStream } from '../src/event-stream.js';
+import { Listening, close, listen, silenceLogs } from './helpers.js';
+
+interface Connection {
+  headers: http.IncomingHttpHeaders;
+  res: express.Response;
+}
+
+let router: Listening;
+let connections: Connection[] = [];
+// Delay before the stand-in answers, to exercise the connect timeout
+let headerDelayMs = 0;
+let stream: MIAWEventStream | undefined;
+
+function openStream(connectTimeoutMs = 500): MIAWEventStream {
+  stream = new MIAWEventStream({ url: `${router.url}/eventrouter/v1/sse`, orgId: '00D000000000000AAA', accessToken: 'token', connectTimeoutMs });
+  return stream;
+}
+
+function send(connection: Connection, id: string, event: string, conversationId: string, entry: any) {
+  const data = JSON.stringify({ conversationId, conversationEntry: { ...entry, entryPayload: JSON.stringify(entry.entryPayload) } });
+  connection.res.write(`id: ${id}\nevent: ${event}\ndata: ${data}\n\n`);
+}
+
+function message(identifier: string, text: string, timestamp: number) {
+  return {
+    identifier,
+    entryType: 'Message',
+    sender: { role: 'Chatbot', subject: 'bot' },
+    senderDisplayName: 'Bot',
+    transcriptedTimestamp: timestamp,
+    entryPayload: { id: identifier, abstractMessage: { id: identifier, messageType: 'StaticContentMessage', staticContent: { formatType: 'Text', text } } }
+  };
+}
+
+function nextEntry(eventStream: MIAWEventStream): Promise<[string, any]> {
+  return new Promise((resolve) => eventStream.once('entry', (conversationId, entry) => resolve([conversationId, entry])));
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+beforeAll(async () => {
+  silenceLogs();
+  const app = express();
+  app.get('/eventrouter/v1/sse', (req, res) => {
+    setTimeout(() => {
+      if (res.destroyed) return;
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(': connected\n\n');
+      connections.push({ headers: req.headers, res });
+    }, headerDelayMs);
+  });
+  router = await listen(app);
+});
+
+afterEach(() => {
+  stream?.close();
+  stream = undefined;
+  for (const connection of connections) connection.res.end();
+  connections = [];
+  headerDelayMs = 0;
+});
+
+afterAll(async () => {
+  await close(router);
+});
+
+describe('MIAWEventStream', () => {
+  it('buffers entries with entryPayload parsed and skips duplicates', async () => {
+    const eventStream = openStream();
+    await eventStream.connect();
+    expect(eventStream.isConnected()).toBe(true);
+    expect(connections[0].headers).toMatchObject({ authorization: 'Bearer token', 'x-org-id': '00D000000000000AAA' });
+
+    const received = nextEntry(eventStream);
+    send(connections[0], '1', 'CONVERSATION_MESSAGE', 'conv-1', message('e1', 'Hello', 1000));
+    const [conversationId, entry] = await received;
+    expect(conversationId).toBe('conv-1');
+    expect(entry.entryPayload.abstractMessage.staticContent.text).toBe('Hello');
+
+    send(connections[0], '2', 'CONVERSATION_MESSAGE', 'conv-1', message('e1', 'Hello', 1000));
+    send(connections[0], '3', 'CONVERSATION_MESSAGE', 'conv-1', message('e2', 'Again', 1001));
+    await waitFor(() => eventStream.getEntries('conv-1').length === 2);
+    expect(eventStream.getEntries('conv-1').map((e) => e.identifier)).toEqual(['e1', 'e2']);
+  });
+
+  it('tracks typing indicators without buffering them', async () => {
+    const eventStream = openStream();
+    await eventStream.connect();
+
+    send(connections[0], '1', 'CONVERSATION_TYPING_STARTED_INDICATOR', 'conv-1', {
+      entryType: 'TypingStartedIndicator', sender: { role: 'Agent' }, senderDisplayName: 'Sam', transcriptedTimestamp: 5000, entryPayload: {}
+    });
+    await waitFor(() => eventStream.getTypingState('conv-1') !== undefined);
+    expect(eventStream.getTypingState('conv-1')).toEqual({ isTyping: true, senderDisplayName: 'Sam', role: 'Agent', timestamp: 5000 });
+    expect(eventStream.getEntries('conv-1')).toEqual([]);
+  });
+
+  it('keeps a quiet subscription open past the connect timeout', async () => {
+    const eventStream = openStream(100);
+    await eventStream.connect();
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect(eventStream.isConnected()).toBe(true);
+
+    const received = nextEntry(eventStream);
+    send(connections[0], '1', 'CONVERSATION_MESSAGE', 'conv-1', message('late', 'Still here', 2000));
+    expect((await received)[1].identifier).toBe('late');
+  });
+
+  it('gives up when the event router does not answer within the connect timeout', async () => {
+    headerDelayMs = 1000;
+    const eventStream = openStream(100);
+
+    const started = Date.now();
+    await expect(eventStream.connect()).rejects.toThrow('did not answer within 100ms');
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(eventStream.isConnected()).toBe(false);
+  });
+
+  it('reconnects with Last-Event-Id after the stream ends', async () => {
+    const eventStream = openStream();
+    await eventStream.connect();
+    send(connections[0], '7', 'CONVERSATION_MESSAGE', 'conv-1', message('e7', 'Before', 3000));
+    await waitFor(() => eventStream.getEntries('conv-1').length === 1);
+
+    connections[0].res.end();
+    await waitFor(() => connections.length === 2 && eventStream.isConnected());
+    expect(connections[1].headers['last-event-id']).toBe('7');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Shared setup for the tests: a MiawSimulator on an ephemeral port and a
+ * MIAWMCPServer pointed at it.
+ *
+ * src/index.ts reads its configuration when it is first imported, so every
+ * test file sets the environment with simulatorEnv() and then imports it with
+ * loadServer(). Jest gives each test file its own module registry.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { jest } from '@jest/globals';
+import { DEFAULT_SIMULATOR_SCRIPT, MiawSimulator, SimulatorScript } from '../src/simulator.js';
+
+export interface Listening {
+  server: http.Server;
+  url: string;
+  port: number;
+}
+
+export async function listen(app: express.Express): Promise<Listening> {
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}`, port };
+}
+
+export async function close(listening: Listening | undefined): Promise<void> {
+  if (!listening) return;
+  listening.server.closeAllConnections();
+  await new Promise<void>((resolve) => listening.server.close(() => resolve()));
+}
+
+/**
+ * A simulator with fast replies (the default script otherwise)
+ */
+export async function startSimulator(script: Partial<SimulatorScript> = {}): Promise<Listening & { simulator: MiawSimulator }> {
+  const simulator = new MiawSimulator({ ...DEFAULT_SIMULATOR_SCRIPT, replyDelayMs: 20, ...script });
+  return { ...(await listen(simulator.createApp())), simulator };
+}
+
+/**
+ * Point the server at the simulator, with short waits so long polls return quickly
+ */
+export function simulatorEnv(port: number, extra: Record<string, string> = {}): void {
+  Object.assign(process.env, {
+    MIAW_SCRT_URL: `127.0.0.1:${port}`,
+    MIAW_SCRT_PROTOCOL: 'http',
+    MIAW_ORG_ID: '00D000000000000AAA',
+    MIAW_ES_DEVELOPER_NAME: 'Simulator',
+    MCP_TRANSPORT: 'http',
+    SERVER_URL: 'http://127.0.0.1',
+    MIAW_POLL_MAX_WAIT_MS: '3000',
+    MIAW_POLL_INITIAL_INTERVAL_MS: '50',
+    MIAW_POLL_QUIET_PERIOD_MS: '150',
+    MIAW_HTTP_RETRY_BASE_MS: '10',
+    MIAW_DOWNLOAD_SIGNING_SECRET: 'test-download-secret',
+    ...extra
+  });
+}
+
+export async function loadServer() {
+  const { MIAWMCPServer } = await import('../src/index.js');
+  return new MIAWMCPServer();
+}
+
+/**
+ * The JSON a tool returned in its text content
+ */
+export function resultOf(result: { content: Array<{ type: string; text: string }> }): any {
+  return JSON.parse(result.content[0].text);
+}
+
+export async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : undefined };
+}
+
+/**
+ * The server and the simulator log every call; keep the test output readable
+ */
+export function silenceLogs(): void {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+}
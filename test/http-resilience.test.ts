@@ -0,0 +1,155 @@
+/**
+ * Retries and the circuit breaker, with faults injected through /simulator/faults
+ */
+
+import crypto from 'crypto';
+import axios, { AxiosInstance } from 'axios';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import { CircuitBreaker, installResilience } from '../src/http-resilience.js';
+import { Listening, close, postJson, silenceLogs, startSimulator } from './helpers.js';
+import type { MiawSimulator, SimulatorFault } from '../src/simulator.js';
+
+const RETRY_POLICY = { maxRetries: 2, baseDelayMs: 10, maxDelayMs: 2000 };
+
+let sim: Listening & { simulator: MiawSimulator };
+let accessToken: string;
+let conversationId: string;
+
+function resilientClient(breaker = new CircuitBreaker('test', { failureThreshold: 5, openMs: 30000 })): AxiosInstance {
+  const instance = axios.create({
+    baseURL: `${sim.url}/iamessage/api/v2`,
+    headers: { Authorization: `Bearer ${accessToken}` }
+  });
+  installResilience(instance, breaker, RETRY_POLICY);
+  return instance;
+}
+
+async function addFault(fault: SimulatorFault) {
+  await postJson(`${sim.url}/simulator/faults`, fault);
+}
+
+async function faults(): Promise<Array<SimulatorFault & { remaining?: number }>> {
+  return ((await (await fetch(`${sim.url}/simulator/state`)).json()) as any).faults;
+}
+
+beforeAll(async () => {
+  silenceLogs();
+  sim = await startSimulator();
+  const token = await postJson(`${sim.url}/iamessage/api/v2/authorization/unauthenticated/access-token`, {
+    orgId: '00D000000000000AAA',
+    esDeveloperName: 'Simulator'
+  });
+  accessToken = token.body.accessToken;
+  conversationId = crypto.randomUUID();
+  await postJson(`${sim.url}/iamessage/api/v2/conversation`, { conversationId, esDeveloperName: 'Simulator' }, {
+    Authorization: `Bearer ${accessToken}`
+  });
+});
+
+afterEach(async () => {
+  await fetch(`${sim.url}/simulator/faults`, { method: 'DELETE' });
+});
+
+afterAll(async () => {
+  sim?.simulator.reset();
+  await close(sim);
+});
+
+describe('retries', () => {
+  it('waits for Retry-After on a 429 and then succeeds', async () => {
+    await addFault({ path: '/routing-status$', status: 429, times: 1, retryAfter: 1 });
+
+    const started = Date.now();
+    const response = await resilientClient().get(`/conversations/${conversationId}/routing-status`);
+    expect(response.status).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    expect((await faults())[0].remaining).toBe(0);
+  });
+
+  it('does not retry a 5xx on a message POST', async () => {
+    await addFault({ path: '/message$', method: 'POST', status: 503, times: 3 });
+
+    const send = resilientClient().post(`/conversation/${conversationId}/message`, {
+      message: { id: crypto.randomUUID(), messageType: 'StaticContentMessage', staticContent: { formatType: 'Text', text: 'once' } }
+    });
+    await expect(send).rejects.toMatchObject({ response: { status: 503 } });
+    expect((await faults())[0].remaining).toBe(2);
+  });
+
+  it('retries a 429 on a message POST', async () => {
+    await addFault({ path: '/message$', method: 'POST', status: 429, times: 1, retryAfter: 0 });
+
+    const response = await resilientClient().post(`/conversation/${conversationId}/message`, {
+      message: { id: crypto.randomUUID(), messageType: 'StaticContentMessage', staticContent: { formatType: 'Text', text: 'twice' } }
+    });
+    expect(response.status).toBe(202);
+    expect((await faults())[0].remaining).toBe(0);
+  });
+
+  it('does not retry a 5xx on an access-token POST', async () => {
+    await addFault({ path: '/access-token$', method: 'POST', status: 503, times: 3 });
+
+    const mint = resilientClient().post('/authorization/unauthenticated/access-token', {
+      orgId: '00D000000000000AAA',
+      esDeveloperName: 'Simulator'
+    });
+    await expect(mint).rejects.toMatchObject({ response: { status: 503 } });
+    expect((await faults())[0].remaining).toBe(2);
+  });
+
+  it('retries a 5xx on a read', async () => {
+    await addFault({ path: '/entries$', method: 'GET', status: 503, times: 2 });
+
+    const response = await resilientClient().get(`/conversation/${conversationId}/entries`);
+    expect(response.status).toBe(200);
+    expect((await faults())[0].remaining).toBe(0);
+  });
+});
+
+describe('circuit breaker', () => {
+  it('opens after failureThreshold failed calls and closes after a successful trial', async () => {
+    const breaker = new CircuitBreaker('breaker-test', { failureThreshold: 2, openMs: 200 });
+    const client = resilientClient(breaker);
+    const routingStatus = () => client.get(`/conversations/${conversationId}/routing-status`);
+    await addFault({ path: '/routing-status$', status: 503 });
+
+    // Three attempts, one failed call
+    await expect(routingStatus()).rejects.toMatchObject({ response: { status: 503 } });
+    expect(breaker.state).toBe('closed');
+
+    await expect(routingStatus()).rejects.toMatchObject({ response: { status: 503 } });
+    expect(breaker.state).toBe('open');
+
+    await expect(routingStatus()).rejects.toMatchObject({ code: 'CIRCUIT_OPEN', retryable: true });
+
+    await fetch(`${sim.url}/simulator/faults`, { method: 'DELETE' });
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(breaker.state).toBe('half-open');
+
+    const trial = await routingStatus();
+    expect(trial.status).toBe(200);
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('re-opens when the half-open trial fails', async () => {
+    const breaker = new CircuitBreaker('trial-test', { failureThreshold: 1, openMs: 100 });
+    const client = resilientClient(breaker);
+    await addFault({ path: '/routing-status$', status: 503 });
+
+    await expect(client.get(`/conversations/${conversationId}/routing-status`)).rejects.toMatchObject({ response: { status: 503 } });
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(breaker.state).toBe('half-open');
+
+    await expect(client.get(`/conversations/${conversationId}/routing-status`)).rejects.toMatchObject({ response: { status: 503 } });
+    expect(breaker.state).toBe('open');
+  });
+
+  it('counts a call that succeeded on a retry as a success', async () => {
+    const breaker = new CircuitBreaker('recovery-test', { failureThreshold: 1, openMs: 30000 });
+    await addFault({ path: '/routing-status$', status: 503, times: 1 });
+
+    const response = await resilientClient(breaker).get(`/conversations/${conversationId}/routing-status`);
+    expect(response.status).toBe(200);
+    expect(breaker.state).toBe('closed');
+  });
+});
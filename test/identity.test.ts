@@ -0,0 +1,54 @@
+/**
+ * Which customer identity a verified session gets
+ */
+
+import crypto from 'crypto';
+import { describe, expect, it } from '@jest/globals';
+import { IDENTITY_SECRET_HEADER, loadIdentityConfig, resolveIdentityToken, subjectOf } from '../src/identity.js';
+
+const { privateKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  publicKeyEncoding: { type: 'spki', format: 'pem' }
+});
+
+const config = loadIdentityConfig({
+  MIAW_JWT_PRIVATE_KEY: privateKey,
+  MIAW_JWT_IDENTITY_HEADER: 'X-Customer-Identity-Token',
+  MIAW_JWT_SUBJECT_HEADER: 'X-Customer-Id',
+  MIAW_JWT_HEADER_SECRET: 'gateway-secret'
+});
+
+describe('resolveIdentityToken', () => {
+  it('signs for the subject header when the gateway secret matches', () => {
+    const identity = resolveIdentityToken(config, { 'x-customer-id': 'customer-1', [IDENTITY_SECRET_HEADER]: 'gateway-secret' });
+    expect(identity).toMatchObject({ subject: 'customer-1', source: 'signed' });
+    expect(subjectOf(identity.jwt)).toBe('customer-1');
+  });
+
+  it('forwards an upstream JWT when the gateway secret matches', () => {
+    const upstream = resolveIdentityToken(config, { 'x-customer-id': 'customer-2', [IDENTITY_SECRET_HEADER]: 'gateway-secret' }).jwt;
+    const identity = resolveIdentityToken(config, { 'x-customer-identity-token': `Bearer ${upstream}`, [IDENTITY_SECRET_HEADER]: 'gateway-secret' });
+    expect(identity).toEqual({ jwt: upstream, subject: 'customer-2', source: 'upstream' });
+  });
+
+  it.each([
+    ['no secret', { 'x-customer-id': 'victim' }],
+    ['a wrong secret', { 'x-customer-id': 'victim', [IDENTITY_SECRET_HEADER]: 'guess' }],
+    ['an identity header and no secret', { 'x-customer-identity-token': 'a.b.c' }]
+  ])('rejects identity headers with %s', (_case, headers) => {
+    expect(() => resolveIdentityToken(config, headers)).toThrow(expect.objectContaining({ code: 'IDENTITY_HEADER_UNTRUSTED', httpStatus: 401 }));
+  });
+
+  it('never trusts the headers when no secret is configured', () => {
+    const open = loadIdentityConfig({ MIAW_JWT_PRIVATE_KEY: privateKey, MIAW_JWT_SUBJECT_HEADER: 'x-customer-id' });
+    expect(() => resolveIdentityToken(open, { 'x-customer-id': 'victim', [IDENTITY_SECRET_HEADER]: '' }))
+      .toThrow(expect.objectContaining({ code: 'IDENTITY_HEADER_UNTRUSTED' }));
+  });
+
+  it('only signs for a subject argument when allowed', () => {
+    expect(() => resolveIdentityToken(config, {}, 'customer-3')).toThrow(expect.objectContaining({ code: 'SUBJECT_NOT_ALLOWED' }));
+    const allowed = loadIdentityConfig({ MIAW_JWT_PRIVATE_KEY: privateKey, MIAW_JWT_ALLOW_SUBJECT_ARG: 'true' });
+    expect(resolveIdentityToken(allowed, {}, 'customer-3')).toMatchObject({ subject: 'customer-3', source: 'signed' });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Streamable HTTP sessions on /mcp
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { Listening, close, listen, loadServer, resultOf, silenceLogs, simulatorEnv, startSimulator } from './helpers.js';
+import type { MiawSimulator } from '../src/simulator.js';
+import type { MIAWMCPServer } from '../src/index.js';
+
+let sim: Listening & { simulator: MiawSimulator };
+let server: MIAWMCPServer;
+let api: Listening;
+
+const MCP_HEADERS = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+async function rpc(body: unknown, sessionId?: string): Promise<Response> {
+  const response = await fetch(`${api.url}/mcp`, {
+    method: 'POST',
+    headers: { ...MCP_HEADERS, ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}) },
+    body: JSON.stringify(body)
+  });
+  // Drain the body so the request is finished
+  await response.text();
+  return response;
+}
+
+async function openSession(): Promise<string> {
+  const response = await rpc({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'jest', version: '1.0.0' } }
+  });
+  const sessionId = response.headers.get('mcp-session-id');
+  expect(sessionId).toEqual(expect.any(String));
+  await rpc({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId!);
+  return sessionId!;
+}
+
+const listTools = (sessionId: string) => rpc({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId);
+
+// Stand-in for a reaper tick
+const reap = () => server['reapStreamableSessions']();
+
+beforeAll(async () => {
+  silenceLogs();
+  sim = await startSimulator();
+  simulatorEnv(sim.port, { MIAW_SESSION_IDLE_TTL: '1' });
+  server = await loadServer();
+  api = await listen(server.createHttpApp());
+});
+
+afterAll(async () => {
+  await server?.stop();
+  await close(api);
+  sim?.simulator.reset();
+  await close(sim);
+});
+
+describe('Streamable HTTP sessions', () => {
+  it('are closed once idle past the session idle TTL', async () => {
+    const sessionId = await openSession();
+    expect((await listTools(sessionId)).status).toBe(200);
+
+    reap();
+    expect((await listTools(sessionId)).status).toBe(200);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    reap();
+    expect((await listTools(sessionId)).status).toBe(404);
+  });
+
+  it('stay open while a notification stream is open', async () => {
+    const sessionId = await openSession();
+    const stream = new AbortController();
+    const notifications = await fetch(`${api.url}/mcp`, {
+      headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+      signal: stream.signal
+    });
+    expect(notifications.status).toBe(200);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    reap();
+    expect((await listTools(sessionId)).status).toBe(200);
+    stream.abort();
+  });
+});
+
+describe('conversation resource watches', () => {
+  it('report new entries without keeping the session alive', async () => {
+    const { sessionId } = resultOf(await server.callTool('generate_guest_access_token', {}));
+    const { conversationId } = resultOf(await server.callTool('create_conversation', { sessionId }));
+
+    let updates = 0;
+    let ended: string | undefined;
+    const stop = server['watchConversation'](sessionId, conversationId, undefined, {
+      onUpdate: () => updates++,
+      onEnd: (reason: string) => (ended = reason)
+    });
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await server.callTool('send_message', { sessionId, conversationId, text: 'hello there' });
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(updates).toBeGreaterThan(0);
+
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+      await expect(server.callTool('list_conversation_entries', { sessionId, conversationId }))
+        .rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+      expect(ended).toBeUndefined();
+    } finally {
+      stop();
+    }
+  });
+});
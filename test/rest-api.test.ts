@@ -0,0 +1,180 @@
+/**
+ * /api/{tool} and the legacy REST routes, through the express app
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { MIAW_TOOLS } from '../src/tool-definitions.js';
+import { toolRestPath } from '../src/openapi.js';
+import { Listening, close, listen, loadServer, postJson, silenceLogs, simulatorEnv, startSimulator } from './helpers.js';
+import type { MiawSimulator } from '../src/simulator.js';
+import type { MIAWMCPServer } from '../src/index.js';
+
+let sim: Listening & { simulator: MiawSimulator };
+let server: MIAWMCPServer;
+let api: Listening;
+
+beforeAll(async () => {
+  silenceLogs();
+  sim = await startSimulator();
+  simulatorEnv(sim.port);
+  server = await loadServer();
+  api = await listen(server.createHttpApp());
+});
+
+afterAll(async () => {
+  await server?.stop();
+  await close(api);
+  sim?.simulator.reset();
+  await close(sim);
+});
+
+describe('generated /api/{tool} routes', () => {
+  it('has a route for every tool in the OpenAPI document', async () => {
+    const document = await (await fetch(`${api.url}/openapi.json`)).json() as any;
+    for (const tool of MIAW_TOOLS) {
+      expect(document.paths[toolRestPath(tool.name)]?.post).toBeDefined();
+    }
+  });
+
+  it('runs a conversation end to end', async () => {
+    const session = await postJson(`${api.url}/api/generate_guest_access_token`, {});
+    expect(session.status).toBe(200);
+    const { sessionId } = session.body;
+
+    const created = await postJson(`${api.url}/api/create_conversation`, { sessionId });
+    expect(created.status).toBe(200);
+    const { conversationId } = created.body;
+
+    const greeting = await postJson(`${api.url}/api/list_conversation_entries`, { sessionId, conversationId, since: 'cursor' });
+    expect(greeting.body.entries.map((e: any) => e.text)).toEqual([expect.stringContaining('simulator bot')]);
+
+    await postJson(`${api.url}/api/send_message`, { sessionId, conversationId, text: 'over rest' });
+    const reply = await postJson(`${api.url}/api/list_conversation_entries`, { sessionId, conversationId, since: 'cursor' });
+    expect(reply.body.entries.map((e: any) => e.text)).toEqual(['You said: over rest']);
+
+    const status = await postJson(`${api.url}/api/get_conversation_routing_status`, { sessionId, conversationId });
+    expect(status.body.routingResult.status).toBe('Routed');
+
+    const transcript = await fetch(`${api.url}/api/transcript`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, conversationId, format: 'text' })
+    });
+    expect(transcript.status).toBe(200);
+    expect(await transcript.text()).toContain('You said: over rest');
+
+    const closed = await postJson(`${api.url}/api/close_conversation`, { sessionId, conversationId });
+    expect(closed.body.success).toBe(true);
+  });
+
+  it('keeps a read cursor per reader', async () => {
+    const { sessionId } = (await postJson(`${api.url}/api/generate_guest_access_token`, {})).body;
+    const { conversationId } = (await postJson(`${api.url}/api/create_conversation`, { sessionId })).body;
+    const list = (args: Record<string, unknown>) => postJson(`${api.url}/api/list_conversation_entries`, { sessionId, conversationId, ...args });
+
+    // The widget reads the history and then polls with its own cursor
+    const history = await list({ since: 'cursor', cursorId: 'widget' });
+    expect(history.body.entries.map((e: any) => e.text)).toEqual([expect.stringContaining('simulator bot')]);
+    expect((await list({ skipPolling: true, since: history.body.cursor })).body.entries).toEqual([]);
+
+    // ...which leaves the default reader's messages unread
+    const model = await list({ since: 'cursor' });
+    expect(model.body.entries.map((e: any) => e.text)).toEqual([expect.stringContaining('simulator bot')]);
+    expect((await list({ skipPolling: true, since: 'cursor', cursorId: 'widget' })).body.entries).toEqual([]);
+  });
+
+  it('refuses a since entry id it cannot place instead of returning the whole history', async () => {
+    const { sessionId } = (await postJson(`${api.url}/api/generate_guest_access_token`, {})).body;
+    const { conversationId } = (await postJson(`${api.url}/api/create_conversation`, { sessionId })).body;
+    const response = await postJson(`${api.url}/api/list_conversation_entries`, { sessionId, conversationId, skipPolling: true, since: 'no-such-entry' });
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('CURSOR_NOT_FOUND');
+  });
+
+  it('refuses a transcript of a conversation the session did not open', async () => {
+    const own = (await postJson(`${api.url}/api/generate_guest_access_token`, {})).body.sessionId;
+    await postJson(`${api.url}/api/create_conversation`, { sessionId: own });
+    const other = (await postJson(`${api.url}/api/generate_guest_access_token`, {})).body.sessionId;
+    const { conversationId } = (await postJson(`${api.url}/api/create_conversation`, { sessionId: other })).body;
+
+    const response = await postJson(`${api.url}/api/transcript`, { sessionId: own, conversationId, format: 'text' });
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('CONVERSATION_MISMATCH');
+  });
+
+  it('downloads attachments on the SCRT host and refuses links to anywhere else', async () => {
+    const { sessionId } = (await postJson(`${api.url}/api/generate_guest_access_token`, {})).body;
+    const { conversationId } = (await postJson(`${api.url}/api/create_conversation`, { sessionId })).body;
+    await postJson(`${api.url}/api/send_file`, {
+      sessionId,
+      conversationId,
+      fileName: 'note.txt',
+      mimeType: 'text/plain',
+      fileData: Buffer.from('hello file').toString('base64')
+    });
+
+    const transcript = await postJson(`${api.url}/api/get_conversation_transcript`, { sessionId, conversationId, format: 'json' });
+    const attachment = JSON.parse(transcript.body.transcript).entries.flatMap((e: any) => e.attachments || [])[0];
+    const link = new URL(attachment.downloadUrl);
+    const download = await fetch(`${api.url}${link.pathname}${link.search}`);
+    expect(download.status).toBe(200);
+    expect(await download.text()).toBe('hello file');
+
+    const { signDownloadToken } = await import('../src/attachments.js');
+    const token = signDownloadToken({ sessionId, url: 'https://attacker.example.com/collect', name: 'x', mimeType: 'text/plain', exp: Date.now() + 60000 });
+    const forged = await fetch(`${api.url}/api/attachment?token=${token}`);
+    expect(forged.status).toBe(400);
+    expect(((await forged.json()) as any).code).toBe('ATTACHMENT_URL_REJECTED');
+  });
+
+  it('rejects arguments that do not match the inputSchema with 400', async () => {
+    const response = await postJson(`${api.url}/api/send_message`, { sessionId: 'x', conversationId: 'y' });
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ code: 'INVALID_ARGUMENTS', category: 'validation', retryable: false });
+  });
+
+  it('maps an unknown session to 404 SESSION_NOT_FOUND', async () => {
+    const response = await postJson(`${api.url}/api/get_conversation_routing_status`, { sessionId: 'missing', conversationId: 'y' });
+    expect(response.status).toBe(404);
+    expect(response.body.code).toBe('SESSION_NOT_FOUND');
+  });
+});
+
+describe('legacy REST routes', () => {
+  it('serve the same tools under their old names', async () => {
+    const session = await postJson(`${api.url}/api/generate-session`, {});
+    expect(session.status).toBe(200);
+    const { sessionId } = session.body;
+
+    const created = await postJson(`${api.url}/api/create-conversation`, { sessionId });
+    const { conversationId } = created.body;
+
+    await postJson(`${api.url}/api/send-typing-indicator`, { sessionId, conversationId, isTyping: true });
+    await postJson(`${api.url}/api/send-message`, { sessionId, conversationId, text: 'legacy' });
+    const entries = await postJson(`${api.url}/api/list-conversation-entries`, { sessionId, conversationId, since: 'cursor' });
+    expect(entries.body.entries.map((e: any) => e.text)).toEqual(expect.arrayContaining(['You said: legacy']));
+
+    const ack = await postJson(`${api.url}/api/send-delivery-acknowledgements`, {
+      sessionId,
+      conversationId,
+      entryIds: entries.body.entries.map((e: any) => e.id)
+    });
+    expect(ack.body.success).toBe(true);
+
+    const status = await postJson(`${api.url}/api/get-conversation-status`, { sessionId, conversationId });
+    expect(status.status).toBe(200);
+
+    const closed = await postJson(`${api.url}/api/close-conversation`, { sessionId, conversationId });
+    expect(closed.body.success).toBe(true);
+  });
+
+  it('validate arguments against the tool they map to', async () => {
+    const routes = ['generate-session', 'generate-verified-session', 'create-conversation', 'resume-conversation', 'send-message',
+      'send-file', 'send-choice-response', 'send-typing-indicator', 'send-delivery-acknowledgements',
+      'list-conversation-entries', 'get-conversation-status', 'close-conversation'];
+    for (const route of routes) {
+      const response = await postJson(`${api.url}/api/${route}`, { unexpected: true });
+      expect({ route, status: response.status, code: response.body.code }).toEqual({ route, status: 400, code: 'INVALID_ARGUMENTS' });
+    }
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Session store backends that run without external services
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { FileSessionStore, MemorySessionStore, SessionStore, TokenCipher } from '../src/session-store.js';
+import { silenceLogs } from './helpers.js';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'miaw-store-'));
+
+beforeAll(() => {
+  silenceLogs();
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+const backends: Array<[string, () => SessionStore]> = [
+  ['memory', () => new MemorySessionStore()],
+  ['file', () => new FileSessionStore(path.join(tmpDir, `${Math.random()}.json`), new TokenCipher('test-key'))]
+];
+
+describe.each(backends)('%s store', (_name, createStore) => {
+  it('round-trips session data', async () => {
+    const store = createStore();
+    await store.set('s1', { accessToken: 'secret', conversationId: 'c1' });
+    expect(await store.get('s1')).toEqual({ accessToken: 'secret', conversationId: 'c1' });
+    expect(await store.keys()).toEqual(['s1']);
+    await store.delete('s1');
+    expect(await store.get('s1')).toBeUndefined();
+  });
+
+  it('indexes the latest live session per user key', async () => {
+    const store = createStore();
+    await store.set('s1', { accessToken: 'a', userKey: 'ada' });
+    await store.set('s2', { accessToken: 'b', userKey: 'ada' });
+    expect(await store.findByUserKey('ada')).toBe('s2');
+
+    // Callers check liveness; the entry goes away with the session
+    await store.set('s2', { accessToken: '', userKey: 'ada', expiredAt: Date.now() });
+    expect(await store.findByUserKey('ada')).toBe('s2');
+    await store.delete('s2');
+    expect(await store.findByUserKey('ada')).toBeUndefined();
+  });
+
+  it('lets one caller hold a claim until it expires or is released', async () => {
+    const store = createStore();
+    expect(await store.claim('message:c1:abc', 50)).toBe(true);
+    expect(await store.claim('message:c1:abc', 50)).toBe(false);
+    expect(await store.claim('message:c1:other', 50)).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(await store.claim('message:c1:abc', 50)).toBe(true);
+
+    await store.release('message:c1:abc');
+    expect(await store.claim('message:c1:abc', 50)).toBe(true);
+  });
+});
+
+describe('file store', () => {
+  it('rebuilds the user-key index from the saved sessions', async () => {
+    const filePath = path.join(tmpDir, 'reload.json');
+    const store = new FileSessionStore(filePath, new TokenCipher('test-key'));
+    await store.set('s1', { accessToken: 'a', userKey: 'ada' });
+
+    const reloaded = new FileSessionStore(filePath, new TokenCipher('test-key'));
+    expect(await reloaded.findByUserKey('ada')).toBe('s1');
+  });
+
+  it('keeps writing after a failed write', async () => {
+    // A file where the store's directory should be makes the first write fail
+    const blocked = path.join(tmpDir, 'blocked');
+    fs.writeFileSync(blocked, '');
+    const filePath = path.join(blocked, 'sessions.json');
+    const store = new FileSessionStore(filePath, new TokenCipher('test-key'));
+    await expect(store.set('s1', { accessToken: 'a' })).rejects.toThrow();
+
+    fs.rmSync(blocked);
+    await store.set('s2', { accessToken: 'b' });
+    const reloaded = new FileSessionStore(filePath, new TokenCipher('test-key'));
+    expect(await reloaded.keys()).toEqual(['s1', 's2']);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Access-token refresh through the continuation-token endpoint, and token isolation between sessions
+ */
+
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { Listening, close, listen, loadServer, postJson, resultOf, silenceLogs, simulatorEnv } from './helpers.js';
+import { DEFAULT_SIMULATOR_SCRIPT, MiawSimulator } from '../src/simulator.js';
+import type { MIAWMCPServer } from '../src/index.js';
+
+let sim: Listening & { simulator: MiawSimulator };
+let server: MIAWMCPServer;
+let api: Listening;
+
+/** One Salesforce call as the simulator saw it */
+interface UpstreamRequest {
+  token: string;
+  conversationId?: string;
+  /** Access token the call handed out (token and continuation-token endpoints) */
+  issued?: string;
+}
+
+const upstreamRequests: UpstreamRequest[] = [];
+
+function recordUpstream(req: express.Request, res: express.Response, next: express.NextFunction) {
+  let issued: string | undefined;
+  const json = res.json.bind(res);
+  res.json = (body: any) => {
+    issued = body?.accessToken;
+    return json(body);
+  };
+  res.on('finish', () => {
+    const path = req.originalUrl.split('?')[0];
+    upstreamRequests.push({
+      token: (req.headers.authorization || '').replace(/^Bearer /, ''),
+      // The body is parsed by the simulator by now
+      conversationId: path.match(/\/conversation\/([^/]+)/)?.[1] ?? (path.endsWith('/conversation') ? req.body?.conversationId : undefined),
+      issued
+    });
+  });
+  next();
+}
+
+/**
+ * Which conversations each token lineage (a session's first token and every token
+ * refreshed from it) was used on, and by which lineages each conversation was used
+ */
+function tokenUse(): { conversationsPerLineage: Map<string, Set<string>>; lineagesPerConversation: Map<string, Set<string>> } {
+  const lineageOf = new Map<string, string>();
+  const conversationsPerLineage = new Map<string, Set<string>>();
+  const lineagesPerConversation = new Map<string, Set<string>>();
+  for (const request of upstreamRequests) {
+    const lineage = lineageOf.get(request.token) ?? request.token;
+    if (request.issued) {
+      lineageOf.set(request.issued, request.token ? lineage : request.issued);
+    }
+    if (request.token && request.conversationId) {
+      conversationsPerLineage.set(lineage, (conversationsPerLineage.get(lineage) || new Set()).add(request.conversationId));
+      lineagesPerConversation.set(request.conversationId, (lineagesPerConversation.get(request.conversationId) || new Set()).add(lineage));
+    }
+  }
+  return { conversationsPerLineage, lineagesPerConversation };
+}
+
+/**
+ * A tool call over REST (/api/{tool}) or a stateless MCP request (/mcp)
+ */
+async function callOver(transport: 'rest' | 'mcp', toolName: string, args: Record<string, unknown>): Promise<any> {
+  if (transport === 'rest') {
+    const response = await postJson(`${api.url}/api/${toolName}`, args);
+    expect(response.status).toBe(200);
+    return response.body;
+  }
+  const response = await postJson(
+    `${api.url}/mcp`,
+    { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: toolName, arguments: args } },
+    { Accept: 'application/json, text/event-stream' }
+  );
+  expect(response.body.result.isError).toBeFalsy();
+  return resultOf(response.body.result);
+}
+
+/**
+ * Delivery receipts go out in the background; wait until Salesforce has been quiet for a moment
+ */
+async function upstreamSettled(): Promise<void> {
+  let seen = -1;
+  while (seen !== upstreamRequests.length) {
+    seen = upstreamRequests.length;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+}
+
+const echoes = (entries: Array<{ text: string }>) => entries.map((e) => e.text).filter((text) => text.startsWith('You said: '));
+
+async function issuedTokens(): Promise<number> {
+  return ((await (await fetch(`${sim.url}/simulator/state`)).json()) as any).tokens;
+}
+
+beforeAll(async () => {
+  silenceLogs();
+  // Tokens live 60 s and are refreshed when they have less than 120 s left: every call refreshes
+  const simulator = new MiawSimulator({ ...DEFAULT_SIMULATOR_SCRIPT, replyDelayMs: 20, tokenTtlSeconds: 60 });
+  const upstream = express();
+  upstream.use(recordUpstream);
+  upstream.use(simulator.createApp());
+  sim = { ...(await listen(upstream)), simulator };
+  simulatorEnv(sim.port, { MIAW_TOKEN_REFRESH_WINDOW: '120' });
+  server = await loadServer();
+  api = await listen(server.createHttpApp());
+});
+
+afterAll(async () => {
+  await server?.stop();
+  await close(api);
+  sim?.simulator.reset();
+  await close(sim);
+});
+
+describe('token refresh', () => {
+  it('shares one refresh between concurrent calls on an expiring session', async () => {
+    const { sessionId } = resultOf(await server.callTool('generate_guest_access_token', {}));
+    const { conversationId } = resultOf(await server.callTool('create_conversation', { sessionId }));
+    const before = await issuedTokens();
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => server.callTool('get_conversation_routing_status', { sessionId, conversationId }))
+    );
+
+    expect(results.map((result) => resultOf(result).conversationId)).toEqual(Array(5).fill(conversationId));
+    expect(await issuedTokens()).toBe(before + 1);
+  });
+
+  it('refreshes again on the next call once the shared refresh has settled', async () => {
+    const { sessionId } = resultOf(await server.callTool('generate_guest_access_token', {}));
+    const { conversationId } = resultOf(await server.callTool('create_conversation', { sessionId }));
+    const before = await issuedTokens();
+
+    await server.callTool('get_conversation_routing_status', { sessionId, conversationId });
+    await server.callTool('get_conversation_routing_status', { sessionId, conversationId });
+
+    expect(await issuedTokens()).toBe(before + 2);
+  });
+});
+
+describe('concurrent sessions', () => {
+  it('never send one session\'s token or conversation with another session\'s calls', async () => {
+    const sessions = await Promise.all([0, 1, 2].map(async (n) => {
+      const { sessionId } = (await postJson(`${api.url}/api/generate_guest_access_token`, {})).body;
+      const { conversationId } = (await postJson(`${api.url}/api/create_conversation`, { sessionId })).body;
+      return { n, sessionId, conversationId, sent: [] as string[] };
+    }));
+
+    // Every call refreshes its session's token, so refreshes interleave too
+    await Promise.all(sessions.flatMap(({ n, sessionId, conversationId, sent }) => [0, 1, 2, 3].flatMap((m) => {
+      const text = `session ${n} message ${m}`;
+      sent.push(`You said: ${text}`);
+      return [
+        callOver(m % 2 ? 'mcp' : 'rest', 'send_message', { sessionId, conversationId, text }),
+        callOver(m % 2 ? 'rest' : 'mcp', 'list_conversation_entries', { sessionId, conversationId, skipPolling: true })
+          .then((result) => expect(echoes(result.entries).every((echo) => echo.startsWith(`You said: session ${n} `))).toBe(true))
+      ];
+    })));
+
+    for (const { sessionId, conversationId, sent } of sessions) {
+      let seen: string[] = [];
+      for (let attempt = 0; attempt < 40 && seen.length < sent.length; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        seen = echoes((await postJson(`${api.url}/api/list_conversation_entries`, { sessionId, conversationId, skipPolling: true })).body.entries);
+      }
+      expect([...seen].sort()).toEqual([...sent].sort());
+    }
+    await upstreamSettled();
+
+    const { conversationsPerLineage, lineagesPerConversation } = tokenUse();
+    for (const { conversationId } of sessions) {
+      expect(lineagesPerConversation.get(conversationId)?.size).toBe(1);
+      const [lineage] = lineagesPerConversation.get(conversationId)!;
+      expect([...conversationsPerLineage.get(lineage)!]).toEqual([conversationId]);
+    }
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Every tool in MIAW_TOOLS, called through callTool against the simulator
+ */
+
+import crypto from 'crypto';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { MIAW_TOOLS } from '../src/tool-definitions.js';
+import { Listening, close, loadServer, resultOf, silenceLogs, simulatorEnv, startSimulator } from './helpers.js';
+import type { MiawSimulator } from '../src/simulator.js';
+import type { MIAWMCPServer } from '../src/index.js';
+
+let sim: Listening & { simulator: MiawSimulator };
+let server: MIAWMCPServer;
+const called = new Set<string>();
+
+async function call(toolName: string, args: any) {
+  called.add(toolName);
+  return server.callTool(toolName, args);
+}
+
+async function simulatorState() {
+  return (await fetch(`${sim.url}/simulator/state`)).json() as Promise<any>;
+}
+
+beforeAll(async () => {
+  silenceLogs();
+  sim = await startSimulator();
+  const { privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' }
+  });
+  simulatorEnv(sim.port, { MIAW_JWT_PRIVATE_KEY: privateKey, MIAW_JWT_ALLOW_SUBJECT_ARG: 'true' });
+  server = await loadServer();
+});
+
+afterAll(async () => {
+  await server?.stop();
+  sim?.simulator.reset();
+  await close(sim);
+});
+
+describe('tools against the simulator', () => {
+  let sessionId: string;
+  let conversationId: string;
+  let resumeToken: string;
+
+  it('generate_guest_access_token creates a session', async () => {
+    const result = resultOf(await call('generate_guest_access_token', { userKey: 'tools-user', appName: 'jest' }));
+    expect(result.sessionId).toEqual(expect.any(String));
+    expect(result.expiresIn).toBe(3600);
+    expect(result.resumeToken).toEqual(expect.any(String));
+    sessionId = result.sessionId;
+    resumeToken = result.resumeToken;
+  });
+
+  it('create_conversation opens a conversation with pre-chat values', async () => {
+    const result = resultOf(await call('create_conversation', { sessionId, prechatFields: { _firstName: 'Ada' } }));
+    expect(result.conversationId).toEqual(expect.any(String));
+    conversationId = result.conversationId;
+
+    const state = await simulatorState();
+    expect(state.conversations[0].routingAttributes).toMatchObject({ _firstName: 'Ada' });
+  });
+
+  it('list_conversation_entries waits for the greeting', async () => {
+    const result = resultOf(await call('list_conversation_entries', { sessionId, conversationId, since: 'cursor' }));
+    expect(result.entries.map((e: any) => e.text)).toEqual([expect.stringContaining('simulator bot')]);
+    expect(result._roleInfo).toMatchObject({ mostRecentSenderRole: 'Chatbot', isLiveAgent: false, conversationEnded: false });
+    expect(result.cursor).toBe(`${result.entries[0].timestamp}:${result.entries[0].id}`);
+  });
+
+  it('send_message gets the bot reply on the next poll', async () => {
+    const sent = resultOf(await call('send_message', { sessionId, conversationId, text: 'hello there' }));
+    expect(sent.id).toEqual(expect.any(String));
+
+    const result = resultOf(await call('list_conversation_entries', { sessionId, conversationId, since: 'cursor' }));
+    expect(result.entries.map((e: any) => e.text)).toEqual(['You said: hello there']);
+  });
+
+  it('send_message drops an identical message sent again right away', async () => {
+    const result = resultOf(await call('send_message', { sessionId, conversationId, text: 'hello there' }));
+    expect(result).toMatchObject({ success: true, _duplicate: true });
+  });
+
+  it('send_typing_indicator reaches the conversation', async () => {
+    const result = resultOf(await call('send_typing_indicator', { sessionId, conversationId, isTyping: true }));
+    expect(result.success).toBe(true);
+  });
+
+  it('send_choice_response answers a choices message', async () => {
+    await call('send_message', { sessionId, conversationId, text: 'menu' });
+    const listed = resultOf(await call('list_conversation_entries', { sessionId, conversationId, since: 'cursor' }));
+    const choices = listed.entries[0];
+    expect(choices.content).toMatchObject({ kind: 'choices' });
+    expect(choices.content.options.map((o: any) => o.title)).toEqual(['Billing', 'Shipping', 'Something else']);
+
+    const result = resultOf(await call('send_choice_response', {
+      sessionId,
+      conversationId,
+      optionId: choices.content.options[1].optionId,
+      title: choices.content.options[1].title,
+      inReplyToMessageId: choices.messageId
+    }));
+    expect(result.success).toBe(true);
+
+    const reply = resultOf(await call('list_conversation_entries', { sessionId, conversationId, since: 'cursor' }));
+    expect(reply.entries.map((e: any) => e.text)).toEqual(['You said: Shipping']);
+  });
+
+  it('send_file uploads an attachment', async () => {
+    const result = resultOf(await call('send_file', {
+      sessionId,
+      conversationId,
+      fileName: 'note.txt',
+      mimeType: 'text/plain',
+      fileData: Buffer.from('hello file').toString('base64'),
+      text: 'see attached'
+    }));
+    expect(result).toMatchObject({ success: true, fileName: 'note.txt', size: 10 });
+
+    const reply = resultOf(await call('list_conversation_entries', { sessionId, conversationId, since: 'cursor' }));
+    expect(reply.entries.map((e: any) => e.text)).toEqual(['You said: see attached']);
+  });
+
+  it('send_delivery_acknowledgements marks entries as read', async () => {
+    const history = resultOf(await call('list_conversation_entries', { sessionId, conversationId, skipPolling: true }));
+    const entryIds = history.entries.slice(0, 2).map((e: any) => e.id);
+    const result = resultOf(await call('send_delivery_acknowledgements', { sessionId, conversationId, entryIds }));
+    expect(result.success).toBe(true);
+
+    const state = await simulatorState();
+    expect(state.conversations[0].acknowledgements).toEqual(expect.arrayContaining(
+      entryIds.map((entryId: string) => ({ type: 'Read', entryId }))
+    ));
+  });
+
+  it('get_conversation_routing_status reports the routing result', async () => {
+    const result = resultOf(await call('get_conversation_routing_status', { sessionId, conversationId }));
+    expect(result.routingResult).toMatchObject({ routingType: 'Initial', status: 'Routed' });
+  });
+
+  it('get_conversation_transcript renders the whole conversation', async () => {
+    const result = resultOf(await call('get_conversation_transcript', { sessionId, conversationId, format: 'markdown' }));
+    expect(result.format).toBe('markdown');
+    expect(result.transcript).toContain('You said: hello there');
+    expect(result.downloadUrl).toContain('/api/transcript?token=');
+  });
+
+  it('show_salesforce_chat hands the messages to the widget', async () => {
+    const result = await call('show_salesforce_chat', { sessionId, conversationId, agentName: 'Sam' });
+    expect(result.structuredContent).toMatchObject({ sessionId, conversationId, agentName: 'Sam' });
+    expect(result.structuredContent.messages.map((m: any) => m.text)).toContain('hello there');
+  });
+
+  it('resume_conversation needs the resume token issued for the userKey', async () => {
+    await expect(call('resume_conversation', { userKey: 'tools-user' })).rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+    await expect(call('resume_conversation', { userKey: 'tools-user', resumeToken: 'guessed' })).rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+  });
+
+  it('generate_guest_access_token refuses a userKey another live session holds', async () => {
+    await expect(call('generate_guest_access_token', { userKey: 'tools-user' })).rejects.toMatchObject({ code: 'USER_KEY_IN_USE' });
+  });
+
+  it('resume_conversation moves the conversation to a new session', async () => {
+    const result = resultOf(await call('resume_conversation', { userKey: 'tools-user', resumeToken }));
+    expect(result).toMatchObject({ conversationId, previousSessionId: sessionId });
+    expect(result.sessionId).not.toBe(sessionId);
+    expect(result.resumeToken).not.toBe(resumeToken);
+
+    // The token is rotated, so the one just used cannot resume again
+    await expect(call('resume_conversation', { userKey: 'tools-user', resumeToken })).rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+    sessionId = result.sessionId;
+  });
+
+  it('close_conversation ends the conversation', async () => {
+    const result = resultOf(await call('close_conversation', { sessionId, conversationId }));
+    expect(result.success).toBe(true);
+
+    const state = await simulatorState();
+    expect(state.conversations[0].closed).toBe(true);
+  });
+
+  it('generate_authenticated_access_token signs an identity for the subject', async () => {
+    const result = resultOf(await call('generate_authenticated_access_token', { subject: 'customer-42' }));
+    expect(result).toMatchObject({ verified: true, sessionId: expect.any(String) });
+
+    const created = resultOf(await call('create_conversation', { sessionId: result.sessionId }));
+    const state = await simulatorState();
+    expect(state.conversations.find((c: any) => c.id === created.conversationId).subject).toBe('customer-42');
+
+    // Knowing the subject is not enough to take the session over
+    await expect(call('resume_conversation', { userKey: 'customer-42' })).rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+    await expect(call('generate_guest_access_token', { userKey: 'customer-42' })).rejects.toMatchObject({ code: 'USER_KEY_IN_USE' });
+
+    // The same customer may open another session under their key
+    const again = resultOf(await call('generate_authenticated_access_token', { subject: 'customer-42' }));
+    expect(again.resumeToken).toEqual(expect.any(String));
+  });
+
+  it('covered every tool', () => {
+    expect([...called].sort()).toEqual(MIAW_TOOLS.map((tool) => tool.name).sort());
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * When a long poll stops
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { LongPoll, WaitStrategy } from '../src/wait-strategy.js';
+import type { NormalizedEntry } from '../src/entries.js';
+
+const STRATEGY: WaitStrategy = { maxWaitMs: 60000, initialIntervalMs: 100, maxIntervalMs: 1000, backoffFactor: 2, quietPeriodMs: 1000 };
+
+function entry(id: string, type: NormalizedEntry['type'], classification: NormalizedEntry['classification'], timestamp: number): NormalizedEntry {
+  return { id, type, timestamp, role: 'System', senderName: '', classification, text: '' };
+}
+
+const greeting = entry('greeting', 'Message', 'bot', 1);
+const question = entry('question', 'Message', 'user', 2);
+const botLeft = entry('bot-left', 'ParticipantChanged', 'closure', 3);
+
+describe('LongPoll', () => {
+  it('keeps waiting when the bot left on a transfer before the call', () => {
+    const poll = new LongPoll(STRATEGY);
+    expect(poll.observe([greeting, question, botLeft], [])).toMatchObject({ done: false });
+    expect(poll.observe([greeting, question, botLeft], [])).toMatchObject({ done: false });
+  });
+
+  it('stops for the agent that joins after the transfer', () => {
+    const poll = new LongPoll(STRATEGY);
+    poll.observe([greeting, question, botLeft], []);
+    const joined = entry('agent-joined', 'ParticipantChanged', 'system', 4);
+    expect(poll.observe([greeting, question, botLeft, joined], [])).toEqual({ done: true, reason: 'routing' });
+  });
+
+  it('stops for a closure that arrives while it waits', () => {
+    const poll = new LongPoll(STRATEGY);
+    poll.observe([greeting, question], []);
+    const ended = entry('ended', 'RoutingResult', 'closure', 4);
+    expect(poll.observe([greeting, question, ended], [])).toEqual({ done: true, reason: 'closed' });
+  });
+
+  it('stops at once for a conversation that had already ended', () => {
+    const poll = new LongPoll(STRATEGY);
+    const closed = entry('closed', 'ConversationClose', 'closure', 5);
+    const agentReply = entry('reply', 'Message', 'agent', 4);
+    expect(poll.observe([greeting, question, agentReply, closed], [])).toEqual({ done: true, reason: 'closed' });
+  });
+});